@@ -39,6 +39,8 @@ describe('Game Over Conditions', () => {
         cy.get('[data-testid="final-score"]').should('exist')
         cy.get('[data-testid="total-stations"]').should('exist')
         cy.get('[data-testid="game-time"]').should('exist')
+        cy.get('[data-testid="score-breakdown"]').should('exist')
+        cy.get('[data-testid="score-distance"]').should('exist')
       }
     })
   })
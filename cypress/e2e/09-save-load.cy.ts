@@ -0,0 +1,43 @@
+import { SAVE_VERSION } from '../../src/utils/saveGame'
+
+describe('Save and Load', () => {
+  beforeEach(() => {
+    cy.visit('/')
+    cy.waitForMapLoad()
+  })
+
+  it('should show export and import buttons on desktop', () => {
+    cy.viewport(1280, 720)
+
+    cy.get('[data-testid="export-save"]').should('be.visible')
+    cy.get('[data-testid="import-save"]').should('be.visible')
+  })
+
+  it('should autosave and restore the game after a reload', () => {
+    cy.get('[data-testid="stations-count"]', { timeout: 10000 }).should('not.contain', '0')
+
+    // Wait for at least one autosave
+    cy.wait(11000)
+    cy.window().then((win) => {
+      const save = JSON.parse(win.localStorage.getItem('metromesh-autosave') || 'null')
+      expect(save).to.not.equal(null)
+      expect(save.version).to.equal(SAVE_VERSION)
+      expect(save.state.stations.length).to.be.at.least(2)
+
+      cy.reload()
+      cy.waitForMapLoad()
+      cy.get('[data-testid="stations-count"]').should('contain', save.state.stations.length.toString())
+    })
+  })
+
+  it('should reject an invalid save file', () => {
+    cy.viewport(1280, 720)
+
+    cy.get('[data-testid="import-save-input"]').selectFile({
+      contents: Cypress.Buffer.from('not a save file'),
+      fileName: 'broken.json'
+    }, { force: true })
+
+    cy.get('.save-error').should('contain', 'not valid JSON')
+  })
+})
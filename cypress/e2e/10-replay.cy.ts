@@ -0,0 +1,46 @@
+describe('Replay', () => {
+  beforeEach(() => {
+    cy.visit('/')
+    cy.waitForMapLoad()
+    cy.viewport(1280, 720)
+  })
+
+  it('should show replay buttons and no playback controls during a normal game', () => {
+    cy.get('[data-testid="export-replay"]').should('be.visible')
+    cy.get('[data-testid="watch-replay"]').should('be.visible')
+    cy.get('[data-testid="replay-controls"]').should('not.exist')
+  })
+
+  it('should play back a recorded replay with controls', () => {
+    cy.get('[data-testid="stations-count"]', { timeout: 10000 }).should('not.contain', '0')
+
+    cy.window().then((win) => {
+      const replay = {
+        version: 1,
+        cityId: win.localStorage.getItem('metromesh-selected-city') || 'london',
+        start: {
+          stations: [], routes: [], trains: [], score: 0,
+          seed: 42, rngState: 42, elapsedTime: 0, tick: 0, nextEntityId: 1,
+          lastStationSpawnTime: 0, pendingStationSpawn: false
+        },
+        actions: [
+          { tick: 0, type: 'addStation', position: { lng: -0.1276, lat: 51.5072 }, buildingDensity: 0.5, isInitialStation: true, name: 'First' },
+          { tick: 1, type: 'addStation', position: { lng: -0.1176, lat: 51.5072 }, buildingDensity: 0.5, isInitialStation: true, name: 'Second' }
+        ],
+        endTick: 50
+      }
+
+      cy.get('[data-testid="watch-replay-input"]').selectFile({
+        contents: Cypress.Buffer.from(JSON.stringify(replay)),
+        fileName: 'replay.json'
+      }, { force: true })
+    })
+
+    cy.get('[data-testid="replay-controls"]').should('be.visible')
+    cy.get('[data-testid="stations-count"]').should('contain', '2')
+
+    cy.get('[data-testid="replay-play-pause"]').click()
+    cy.get('[data-testid="replay-exit"]').click()
+    cy.get('[data-testid="replay-controls"]').should('not.exist')
+  })
+})
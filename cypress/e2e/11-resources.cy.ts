@@ -0,0 +1,21 @@
+describe('Resource Inventory', () => {
+  beforeEach(() => {
+    cy.visit('/')
+    cy.waitForMapLoad()
+    cy.viewport(1280, 720)
+  })
+
+  it('should show the starting inventory', () => {
+    cy.get('[data-testid="inventory"]').should('be.visible')
+    cy.get('[data-testid="inventory-lines"]').should('contain', '3')
+    cy.get('[data-testid="inventory-locomotives"]').should('contain', '3')
+    cy.get('[data-testid="inventory-carriages"]').should('contain', '0')
+  })
+
+  it('should offer interchanges on the selected station', () => {
+    cy.get('[data-testid="stations-count"]', { timeout: 10000 }).should('not.contain', '0')
+    cy.get('.station-item.clickable').first().click()
+
+    cy.get('[data-testid="build-interchange"]').should('be.disabled').and('contain', '0 left')
+  })
+})
@@ -0,0 +1,21 @@
+describe('Game Modes', () => {
+  beforeEach(() => {
+    cy.visit('/')
+    cy.waitForMapLoad()
+    cy.viewport(1280, 720)
+  })
+
+  it('should start in normal mode with every mode on offer', () => {
+    cy.get('[data-testid="mode-select"]').should('have.value', 'normal')
+    cy.get('[data-testid="mode-select"] option').should('have.length', 4)
+    cy.get('[data-testid="difficulty-select"]').should('have.value', 'normal')
+  })
+
+  it('should start a creative game with a sandbox inventory', () => {
+    cy.get('[data-testid="mode-select"]').select('creative')
+    cy.get('.new-game-description').should('contain', 'Sandbox')
+    cy.get('[data-testid="new-game"]').click()
+
+    cy.get('[data-testid="inventory-locomotives"]', { timeout: 5000 }).should('contain', '99')
+  })
+})
@@ -0,0 +1,19 @@
+import { useGameStore } from '../store/gameStore';
+import { getDaylight, getGameClock } from '../utils/clock';
+
+// Darkest the map gets in the middle of the night
+const MAX_NIGHT_OPACITY = 0.45;
+
+// Night-time tint over the map, following the simulated clock
+export default function DayNightTint() {
+  const elapsedTime = useGameStore(state => state.elapsedTime);
+  const daylight = getDaylight(getGameClock(elapsedTime).hour);
+
+  return (
+    <div
+      className="day-night-tint"
+      style={{ opacity: (1 - daylight) * MAX_NIGHT_OPACITY }}
+      data-testid="day-night-tint"
+    />
+  );
+}
@@ -0,0 +1,29 @@
+import type { DisruptionEvent } from '../types';
+import { DISRUPTION_ICONS, DISRUPTION_LABELS } from '../utils/disruptions';
+import { formatClockTime, getGameClock } from '../utils/clock';
+
+interface DisruptionFeedProps {
+  events: DisruptionEvent[];
+}
+
+// Latest disruptions starting and clearing, newest first
+export default function DisruptionFeed({ events }: DisruptionFeedProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <div className="disruption-feed" data-testid="disruption-feed">
+      {events.map(event => (
+        <div
+          key={event.id}
+          className={`disruption-event${event.isCleared ? ' cleared' : ''}`}
+          title={DISRUPTION_LABELS[event.disruptionType]}
+          data-testid="disruption-event"
+        >
+          <span className="disruption-icon">{event.isCleared ? '✅' : DISRUPTION_ICONS[event.disruptionType]}</span>
+          <span className="disruption-time">{formatClockTime(getGameClock(event.time))}</span>
+          <span className="disruption-message">{event.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -8,13 +8,37 @@ import GameOverScreen from "./GameOverScreen";
 import StationStats from "./StationStats";
 import RouteSelectionPopup from "./RouteSelectionPopup";
 import OffScreenStationIndicators from "./OffScreenStationIndicators";
-import { useGameStore, ROUTE_COLORS } from "../store/gameStore";
+import ReplayControls from "./ReplayControls";
+import RefusalNotice from "./RefusalNotice";
+import RewardChoice from "./RewardChoice";
+import MapClickHandler from "./MapClickHandler";
+import DayNightTint from "./DayNightTint";
+import { useGameStore, getNextRouteColor } from "../store/gameStore";
 import { generateStationPosition } from "../utils/stationPositioning";
 import { useMapNavigation } from "../hooks/useMapNavigation";
 import { GAME_CONFIG } from "../config/gameConfig";
+import { SIMULATION_STEP_MS } from "../utils/simulation";
+import { getCurrentCity } from "../utils/cityStorage";
+import { addWaterTile, createWaterSource, getTileBounds, type WaterFeature } from "../utils/waterCrossings";
+import { getGameModeRules } from "../utils/gameModes";
+import { calculateDistance } from "../utils/coordinates";
+import {
+  createSaveGame,
+  loadAutosave,
+  writeAutosave,
+  clearAutosave,
+} from "../utils/saveGame";
 import type { LngLat, Route } from "../types";
+import type { MapSourceDataEvent } from "maplibre-gl";
 import { MlGeoJsonLayer } from "@mapcomponents/react-maplibre";
 
+// Vector tile source and layer holding water polygons in the map style
+const WATER_SOURCE_ID = "openmaptiles";
+const WATER_SOURCE_LAYER = "water";
+
+// Map clicks this close to a station (metres) are left to the station itself
+const STATION_CLICK_RADIUS = 150;
+
 export default function Game() {
   const {
     stations,
@@ -24,14 +48,32 @@ export default function Game() {
     isPlaying,
     selectedStationId,
     isGameOver,
-    lastStationSpawnTime,
+    gameSpeed,
+    inventory,
+    elapsedTime,
+    reputation,
+    money,
+    ledger,
+    disruptionFeed,
+    specialEvents,
+    mode,
     addStation,
+    moveStation,
     addRoute,
     extendRoute,
-    updateTrainPositions,
+    removeRoute,
+    removeStationFromRoute,
+    insertStationIntoRoute,
+    addBranch,
+    extendBranch,
+    trimBranch,
+    removeBranch,
+    advanceSimulation,
+    stepPlayback,
     resetGame,
-    addPassengerToStation,
+    loadGame,
     selectStation,
+    setWaterSource,
   } = useGameStore();
 
   // Memoized GeoJSON FeatureCollection of Point geometries from stations
@@ -48,7 +90,7 @@ export default function Game() {
           id: station.id,
           name: station.name,
           color: station.color,
-          passengerCount: station.passengerCount,
+          passengerCount: station.passengers.length,
         },
       })),
     }),
@@ -66,6 +108,7 @@ export default function Game() {
       isExtension?: boolean;
       routeId?: string;
       atEnd?: boolean;
+      isBranch?: boolean; // Choosing a line branches it from the start station
     } | null;
   }>({
     isVisible: false,
@@ -119,6 +162,52 @@ export default function Game() {
     [mapHook?.map]
   );
 
+  // Keep the store's water polygons in sync with the map's loaded vector tiles, so lines
+  // crossing rivers and lakes are detected from local data rather than the rendered map.
+  // Tiles only hold the water where the map has been looked at, so the water source is built
+  // up from every tile loaded so far, and lines elsewhere wait until their water has loaded.
+  useEffect(() => {
+    const map = mapHook?.map?.map;
+    if (!map) return;
+
+    const loadedTiles = new Set<string>();
+    let waterSource = createWaterSource([], []);
+    let pendingFrame: number | null = null;
+
+    // Tiles load in bursts, so the store hears about them once a frame
+    const publishWaterSource = () => {
+      if (pendingFrame !== null) return;
+      pendingFrame = requestAnimationFrame(() => {
+        pendingFrame = null;
+        setWaterSource(waterSource);
+      });
+    };
+    const handleSourceData = (event: MapSourceDataEvent) => {
+      const tile = event.tile;
+      if (event.sourceId !== WATER_SOURCE_ID || !tile || tile.state !== "loaded") return;
+      // Zoomed in past the source's detail the same tile's water is loaded again - only add it once
+      const { z, x, y } = tile.tileID.canonical;
+      const key = `${z}/${x}/${y}`;
+      if (loadedTiles.has(key)) return;
+      try {
+        const features: WaterFeature[] = [];
+        tile.querySourceFeatures(features, { sourceLayer: WATER_SOURCE_LAYER });
+        loadedTiles.add(key);
+        waterSource = addWaterTile(waterSource, features, getTileBounds(z, x, y));
+        publishWaterSource();
+      } catch (error) {
+        console.warn("Error reading water features:", error);
+      }
+    };
+
+    setWaterSource(waterSource);
+    map.on("sourcedata", handleSourceData);
+    return () => {
+      map.off("sourcedata", handleSourceData);
+      if (pendingFrame !== null) cancelAnimationFrame(pendingFrame);
+    };
+  }, [mapHook?.map, setWaterSource]);
+
   // Transportation density calculation using queryRenderedFeatures
   const getTransportationDensity = useCallback(
     (position: LngLat): number => {
@@ -168,6 +257,42 @@ export default function Game() {
     }
   }, [stations.length]);
 
+  // Restore the autosaved game for the current city, instead of starting a new one
+  useEffect(() => {
+    const save = loadAutosave();
+    if (save && save.cityId === getCurrentCity().id && save.state.stations.length > 0) {
+      initialStationsCreated.current = true;
+      loadGame(save);
+    }
+  }, [loadGame]);
+
+  // Autosave periodically and when the page is hidden or closed; a finished game is discarded.
+  // A replay ending doesn't finish the player's game, which is still in the autosave.
+  useEffect(() => {
+    if (isGameOver) {
+      if (!useGameStore.getState().playback) clearAutosave();
+      return;
+    }
+
+    const autosave = () => {
+      const state = useGameStore.getState();
+      if (state.isGameOver || state.playback || state.stations.length === 0) return;
+      writeAutosave(createSaveGame(state, getCurrentCity().id));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") autosave();
+    };
+
+    const autosaveTimer = setInterval(autosave, GAME_CONFIG.autosaveInterval);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", autosave);
+    return () => {
+      clearInterval(autosaveTimer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", autosave);
+    };
+  }, [isGameOver]);
+
   // Helper to get feature names from a map layer at a position, sorted by distance
   const getFeatureNamesFromLayer = useCallback(
     (position: LngLat, layer: string): string[] => {
@@ -244,6 +369,7 @@ export default function Game() {
       if (
         stations.length === 0 &&
         !initialStationsCreated.current &&
+        !useGameStore.getState().playback &&
         mapHook?.map
       ) {
         initialStationsCreated.current = true;
@@ -299,7 +425,6 @@ export default function Game() {
                 id: "station-0",
                 position: firstPos,
                 color: "",
-                passengerCount: 0,
               },
             ],
             mapBounds,
@@ -351,23 +476,18 @@ export default function Game() {
     if (!isPlaying) return;
 
     const gameLoop = setInterval(() => {
-      updateTrainPositions();
-
-      // Automatically add stations with timing constraints
-      const timeSinceLastStationSpawn = Date.now() - lastStationSpawnTime;
-      const hasMinDelayPassed =
-        timeSinceLastStationSpawn > GAME_CONFIG.minStationSpawnDelay;
-      const shouldForceSpawn =
-        timeSinceLastStationSpawn > GAME_CONFIG.maxStationSpawnDelay;
-      const shouldRandomSpawn =
-        Math.random() < GAME_CONFIG.stationSpawnProbability;
+      // Advance the deterministic simulation one fixed step per loop so the game can be replayed exactly
+      const { playback } = useGameStore.getState();
+      if (playback) {
+        // Replays bring their own stations from the recording
+        if (!playback.isPaused) stepPlayback();
+        return;
+      }
+      advanceSimulation(SIMULATION_STEP_MS);
 
-      if (
-        hasMinDelayPassed &&
-        (shouldRandomSpawn || shouldForceSpawn) &&
-        stations.length < GAME_CONFIG.maxStations &&
-        mapHook?.map
-      ) {
+      // The simulation decides when a station is due; placing it needs the map
+      const { stations, pendingStationSpawn } = useGameStore.getState();
+      if (pendingStationSpawn && mapHook?.map) {
         const bounds = mapHook.map.getBounds();
         const gameBounds = {
           southwest: {
@@ -421,40 +541,60 @@ export default function Game() {
           stationName
         );
       }
-
-      // Spawn passengers based on building density
-      if (stations.length > 0) {
-        stations.forEach((station) => {
-          // Base spawn probability modified by building density
-          const buildingDensity = station.buildingDensity || 0.5;
-          const adjustedSpawnRate =
-            GAME_CONFIG.passengerSpawnProbability *
-            (0.3 + 0.7 * buildingDensity); // 0.3x to 1.0x base rate
-
-          if (Math.random() < adjustedSpawnRate) {
-            addPassengerToStation(station.id);
-          }
-        });
-      }
     }, GAME_CONFIG.gameLoopInterval);
 
     return () => clearInterval(gameLoop);
   }, [
     isPlaying,
-    updateTrainPositions,
+    advanceSimulation,
+    stepPlayback,
     addStation,
-    addPassengerToStation,
-    stations,
-    lastStationSpawnTime,
     isPositionOnWater,
     getTransportationDensity,
     mapHook.map,
     getFeatureNamesFromLayer,
   ]);
 
+  // Sandbox modes: clicking the map moves the selected station there, or places a new one
+  const handleMapClick = useCallback(
+    (position: LngLat) => {
+      const state = useGameStore.getState();
+      if (state.playback || !mapHook?.map) return;
+      if (state.stations.some((station) => calculateDistance(station.position, position) < STATION_CLICK_RADIUS)) return;
+      if (isPositionOnWater(position)) return;
+
+      if (state.selectedStationId) {
+        moveStation(state.selectedStationId, position);
+        selectStation(null);
+        return;
+      }
+
+      const bounds = mapHook.map.getBounds();
+      const mapBounds = {
+        southwest: { lng: bounds.getSouthWest().lng, lat: bounds.getSouthWest().lat },
+        northeast: { lng: bounds.getNorthEast().lng, lat: bounds.getNorthEast().lat },
+      };
+      const suburbName = getFeatureNamesFromLayer(position, "place_suburb")[0];
+      const highwayName = getFeatureNamesFromLayer(position, "highway_name_other")[0];
+      const stationName = highwayName
+        ? highwayName + (suburbName ? ` (${suburbName})` : "")
+        : suburbName ?? `Station ${state.stations.length + 1}`;
+      addStation(mapBounds, position, undefined, getTransportationDensity, false, stationName);
+    },
+    [
+      mapHook?.map,
+      moveStation,
+      selectStation,
+      addStation,
+      isPositionOnWater,
+      getTransportationDensity,
+      getFeatureNamesFromLayer,
+    ]
+  );
+
   const handleCreateRoute = (stationIds: string[]) => {
     if (stationIds.length >= 2) {
-      const color = ROUTE_COLORS[routes.length % ROUTE_COLORS.length];
+      const color = getNextRouteColor(routes);
       addRoute(stationIds, color);
     }
   };
@@ -484,7 +624,7 @@ export default function Game() {
       return; // Don't create duplicate connection
     }
 
-    const color = ROUTE_COLORS[routes.length % ROUTE_COLORS.length];
+    const color = getNextRouteColor(routes);
     addRoute([startStationId, endStationId], color);
   };
 
@@ -512,11 +652,32 @@ export default function Game() {
     });
   };
 
+  // Handler for a new connection from a station part way along existing lines
+  const handleBranchConnection = (
+    startStationId: string,
+    endStationId: string,
+    branchableRoutes: Route[],
+    screenPosition: { x: number; y: number }
+  ) => {
+    setRouteSelectionPopup({
+      isVisible: true,
+      routes: branchableRoutes,
+      position: screenPosition,
+      pendingConnection: {
+        startStationId,
+        endStationId,
+        isBranch: true,
+      },
+    });
+  };
+
   const handleRouteSelection = (selectedRouteId: string) => {
     const pending = routeSelectionPopup.pendingConnection;
     if (!pending) return;
 
-    if (pending.isExtension) {
+    if (pending.isBranch) {
+      addBranch(selectedRouteId, pending.startStationId, pending.endStationId);
+    } else if (pending.isExtension) {
       // Extend the selected route - determine which end based on start station position
       const selectedRoute = routes.find((r) => r.id === selectedRouteId);
       if (selectedRoute) {
@@ -528,7 +689,7 @@ export default function Game() {
     } else {
       // This case shouldn't happen as we're replacing new route creation logic,
       // but handle it gracefully
-      const color = ROUTE_COLORS[routes.length % ROUTE_COLORS.length];
+      const color = getNextRouteColor(routes);
       addRoute([pending.startStationId, pending.endStationId], color);
     }
 
@@ -541,6 +702,15 @@ export default function Game() {
     });
   };
 
+  // The branch popup also offers a separate new line
+  const handlePopupCreateNew = () => {
+    const pending = routeSelectionPopup.pendingConnection;
+    if (pending) {
+      handleDragCreateRoute(pending.startStationId, pending.endStationId);
+    }
+    handlePopupCancel();
+  };
+
   const handlePopupCancel = () => {
     setRouteSelectionPopup({
       isVisible: false,
@@ -568,7 +738,7 @@ export default function Game() {
       id: station.id,
       position: station.position,
       color: station.color,
-      passengerCount: station.passengerCount,
+      passengerCount: station.passengers.length,
     })),
     routes,
     trains,
@@ -613,11 +783,20 @@ export default function Game() {
         routes={routes}
         onCreateRoute={handleDragCreateRoute}
         onExtendRoute={extendRoute}
+        onRemoveRoute={removeRoute}
+        onRemoveStationFromRoute={removeStationFromRoute}
+        onInsertStation={insertStationIntoRoute}
+        onExtendBranch={extendBranch}
+        onTrimBranch={trimBranch}
+        onRemoveBranch={removeBranch}
         onMultiRouteConnection={handleMultiRouteConnection}
+        onBranchConnection={handleBranchConnection}
       />
 
+      <DayNightTint />
+
       <GameUI
-        gameState={{ stations, routes, trains, score, isPlaying, gameSpeed: 1 }}
+        gameState={{ stations, routes, trains, score, isPlaying, gameSpeed, inventory, elapsedTime, reputation, money, ledger, disruptionFeed, specialEvents }}
         onReset={resetGame}
         onCreateRoute={handleCreateRoute}
         onStationSelectFromList={handleStationSelectFromList}
@@ -627,7 +806,9 @@ export default function Game() {
         isVisible={routeSelectionPopup.isVisible}
         routes={routeSelectionPopup.routes}
         position={routeSelectionPopup.position}
+        isBranching={!!routeSelectionPopup.pendingConnection?.isBranch}
         onRouteSelect={handleRouteSelection}
+        onCreateNew={handlePopupCreateNew}
         onCancel={handlePopupCancel}
       />
 
@@ -635,6 +816,11 @@ export default function Game() {
       
       <OffScreenStationIndicators />
 
+      <ReplayControls />
+      <RefusalNotice />
+      <RewardChoice />
+      {getGameModeRules(mode).canPlaceStations && <MapClickHandler onMapClick={handleMapClick} />}
+
       {isGameOver && <GameOverScreen />}
     </>
   );
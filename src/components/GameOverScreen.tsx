@@ -1,5 +1,12 @@
+import { useEffect, useRef, useState } from 'react';
 import { useGameStore } from '../store/gameStore';
-import { useMapNavigation } from '../hooks/useMapNavigation';
+import { getCurrentCity, getCityById } from '../utils/cityStorage';
+import { createReplay, downloadReplay } from '../utils/replay';
+import { getGameModeRules } from '../utils/gameModes';
+import { addHighScore, createHighScore, getHighScores, type HighScore } from '../utils/highScores';
+import { SCORE_COMPONENTS, SCORE_COMPONENT_LABELS, getAverageEfficiency } from '../utils/scoring';
+import type { ScoreBreakdown, ScoreComponent } from '../types';
+import NewGameOptions from './NewGameOptions';
 
 function formatTime(seconds: number): string {
   const minutes = Math.floor(seconds / 60);
@@ -7,19 +14,38 @@ function formatTime(seconds: number): string {
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
 
+// What each score component was earned for
+function describeScoreComponent(component: ScoreComponent, breakdown: ScoreBreakdown): string {
+  switch (component) {
+    case 'deliveries':
+      return `${breakdown.delivered} passengers delivered`;
+    case 'distance':
+      return `${(breakdown.passengerDistance / 1000).toFixed(1)} passenger-km`;
+    case 'efficiency':
+      return `Journeys at ${Math.round(getAverageEfficiency(breakdown) * 100)}% of target speed`;
+    case 'transfers':
+      return `${breakdown.delivered > 0 ? (breakdown.transfers / breakdown.delivered).toFixed(2) : '0.00'} changes per journey`;
+  }
+}
+
 export default function GameOverScreen() {
-  const { gameOverStats, gameOverReason, resetGame } = useGameStore();
-  const { resetMapToDefault } = useMapNavigation();
+  const { gameOverStats, gameOverReason, mode, replayLog, tick, playback, seekPlayback } = useGameStore();
+  const modeRules = getGameModeRules(mode);
+  const [highScores, setHighScores] = useState<HighScore[]>([]);
+  const recordedRef = useRef(false);
 
-  const handleNewGame = () => {
-    // First reset the map viewport, then reset the game
-    // This ensures stations are placed in the new viewport bounds
-    resetMapToDefault();
-    
-    // Wait for map animation to complete before resetting game
-    setTimeout(() => {
-      resetGame();
-    }, 1100); // Wait slightly longer than the map flyTo duration (1000ms)
+  // Record the finished game once (replays aren't recorded), then show the mode's best scores
+  useEffect(() => {
+    if (!modeRules.isRanked) return;
+    if (!recordedRef.current && !playback) {
+      recordedRef.current = true;
+      addHighScore(createHighScore(useGameStore.getState(), getCurrentCity().id));
+    }
+    setHighScores(getHighScores(mode).slice(0, 5));
+  }, [mode, modeRules.isRanked, playback]);
+
+  const handleSaveReplay = () => {
+    downloadReplay(createReplay(replayLog, getCurrentCity().id, tick));
   };
 
   if (!gameOverStats) return null;
@@ -30,6 +56,7 @@ export default function GameOverScreen() {
         <div className="game-over-header">
           <img src="/metromesh/logo.png" alt="MetroMesh" className="logo" />
           <h2 className="game-over-title">Game Over</h2>
+          <p className="game-over-mode">{modeRules.label} mode</p>
           <p className="game-over-reason">{gameOverReason}</p>
         </div>
         
@@ -56,15 +83,56 @@ export default function GameOverScreen() {
               <span className="stat-value">{gameOverStats.totalRoutes}</span>
               <span className="stat-label">Routes Created</span>
             </div>
+
+            <div className="stat-item">
+              <span className="stat-value" data-testid="final-reputation">{Math.round(gameOverStats.reputation)}</span>
+              <span className="stat-label">Reputation</span>
+            </div>
+
+            <div className="stat-item">
+              <span className="stat-value" data-testid="abandoned-passengers">{gameOverStats.abandonedPassengers}</span>
+              <span className="stat-label">Passengers Gave Up</span>
+            </div>
+          </div>
+
+          <div className="score-breakdown" data-testid="score-breakdown">
+            <h3 className="section-title">Score Breakdown</h3>
+            {SCORE_COMPONENTS.map(component => (
+              <div key={component} className="score-breakdown-row" data-testid={`score-${component}`}>
+                <span className="score-breakdown-label">{SCORE_COMPONENT_LABELS[component]}</span>
+                <span className="score-breakdown-detail">{describeScoreComponent(component, gameOverStats.scoreBreakdown)}</span>
+                <span className="score-breakdown-points">{gameOverStats.scoreBreakdown.points[component]}</span>
+              </div>
+            ))}
           </div>
           
+          {highScores.length > 0 && (
+            <div className="high-scores" data-testid="high-scores">
+              <h3 className="section-title">{modeRules.label} High Scores</h3>
+              <ol className="high-score-list">
+                {highScores.map(entry => (
+                  <li key={entry.date} className="high-score-item">
+                    <span className="high-score-value">{entry.score}</span>
+                    <span className="high-score-details">
+                      {getCityById(entry.cityId)?.name ?? entry.cityId} · {entry.difficulty} · {formatTime(entry.gameTime)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <NewGameOptions buttonClassName="restart-btn" />
           <div className="game-over-actions">
-            <button 
-              className="restart-btn"
-              onClick={handleNewGame}
-            >
-              Start New Game
-            </button>
+            {playback ? (
+              <button className="restart-btn secondary" onClick={() => seekPlayback(0)}>
+                Watch Again
+              </button>
+            ) : (
+              <button className="restart-btn secondary" onClick={handleSaveReplay} data-testid="save-replay">
+                Save Replay
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -1,16 +1,24 @@
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useMap } from '@mapcomponents/react-maplibre'
 import * as THREE from 'three'
 import { MercatorCoordinate } from 'maplibre-gl'
-import type { LngLat } from '../types'
+import type { Difficulty, LngLat, StationType } from '../types'
 import { 
   createStationObject,
+  getPassengerGeometry,
+  getPassengerMaterial,
   disposeAllSharedThreeResources
 } from '../utils/threeObjectFactories'
 import { PERFORMANCE_CONFIG } from '../config/gameConfig'
 import { useGameStore } from '../store/gameStore'
 import { getTrainPositionFromMovementNetwork } from '../utils/routeNetworkCalculator'
 import { getDistanceInMeters } from '../utils/coordinates'
+import { findRouteWaterCrossings, type WaterCrossing } from '../utils/waterCrossings'
+import { getOverloadTimeRemaining, isStationDistressed, isStationOverloaded } from '../utils/overload'
+import { getDaylight, getGameClock } from '../utils/clock'
+import { getRouteTracks, getTrainPatternKey, routeServesStation } from '../utils/servicePatterns'
+import { findTrainsAtSignals } from '../utils/signalling'
+import { findTrainsAtFailedSignals, getBrokenDownTrains, getClosedStations, getSuspendedSegments } from '../utils/disruptions'
 
 // --- Generic Sync Objects Utility ---
 function syncObjects<T extends { id: string }, U extends THREE.Object3D>(
@@ -66,6 +74,9 @@ function disposeObject(object: THREE.Object3D) {
 
 // --- Object-Specific Update & Animation Functions ---
 
+// Segments in an overload countdown ring
+const COUNTDOWN_SEGMENTS = 64
+
 // Runs ONLY on state change to manage object structure and animation tags
 function updateStationVisuals(
   station: any,
@@ -73,10 +84,12 @@ function updateStationVisuals(
   selectedStationId: string | null,
   routes: any[],
   sharedGeometries: any,
-  _distressMaterialCache: Map<string, THREE.MeshBasicMaterial>
+  _distressMaterialCache: Map<string, THREE.MeshBasicMaterial>,
+  difficulty: Difficulty,
+  now: number
 ) {
-  const isUnconnected = !routes.some(r => r.stations.includes(station.id))
-  const isDistressed = (station.passengerCount || 0) >= 15
+  const isUnconnected = !routes.some(r => routeServesStation(r, station.id))
+  const isDistressed = isStationDistressed(station, difficulty)
 
   // Reset animation flag; it will be re-enabled if any animatable state is active
   group.userData.isAnimating = false
@@ -204,8 +217,42 @@ function updateStationVisuals(
     }
   }
 
+  // --- Manage Overload Countdown ---
+  // A radial arc around an overloaded station shrinks as its grace period runs out. The full ring
+  // is built once and only as many of its segments as time remains are drawn.
+  let countdown = group.getObjectByName('overloadCountdown')
+  if (isStationOverloaded(station)) {
+    if (!countdown) {
+      countdown = new THREE.Group()
+      countdown.name = 'overloadCountdown'
+
+      const track = new THREE.Mesh(
+        new THREE.RingGeometry(3.5, 3.9, COUNTDOWN_SEGMENTS),
+        new THREE.MeshBasicMaterial({ color: 0x000000, transparent: true, opacity: 0.2, side: THREE.DoubleSide })
+      )
+      track.position.z = 0.7
+      countdown.add(track)
+
+      const arc = new THREE.Mesh(
+        new THREE.RingGeometry(3.5, 3.9, COUNTDOWN_SEGMENTS, 1, Math.PI / 2, Math.PI * 2),
+        new THREE.MeshBasicMaterial({ color: 0xe74c3c, side: THREE.DoubleSide })
+      )
+      arc.name = 'countdownArc'
+      arc.position.z = 0.75
+      countdown.add(arc)
+
+      group.add(countdown)
+    }
+    const remaining = getOverloadTimeRemaining(station, now, difficulty)
+    const arc = countdown.getObjectByName('countdownArc') as THREE.Mesh
+    // Each segment of the ring is two triangles
+    arc.geometry.setDrawRange(0, Math.ceil(remaining * COUNTDOWN_SEGMENTS) * 6)
+  } else if (countdown) {
+    disposeObject(countdown)
+  }
+
   // --- Update Connected Route Rings ---
-  const connectedRoutes = routes.filter(route => route.stations.includes(station.id))
+  const connectedRoutes = routes.filter(route => routeServesStation(route, station.id))
   
   // Remove old route rings
   const existingRouteRings = group.children.filter(child => child.userData.type === 'route-ring')
@@ -252,9 +299,9 @@ function runStationAnimations(group: THREE.Group, stationData: any, time: number
 
   // --- Animate Distress Effects (if they exist) ---
   const distressGlow = group.getObjectByName('distressGlow')
-  if (distressGlow && stationData.passengerCount) {
-    const passengerCount = stationData.passengerCount || 0
-    const distressIntensity = Math.min(passengerCount / 20, 1.0)
+  if (distressGlow && stationData.passengers.length) {
+    const passengerCount = stationData.passengers.length
+    const distressIntensity = Math.min(passengerCount / stationData.capacity, 1.0)
     
     // Update station material color
     const stationMesh = group.children[1] as THREE.Mesh
@@ -313,7 +360,7 @@ function runStationAnimations(group: THREE.Group, stationData: any, time: number
   }
 }
 
-function updateTrainVisuals(train: any, mesh: THREE.Mesh, _trainMovementNetwork: any, routes: any[], sharedGeometries: any) {
+function updateTrainVisuals(train: any, mesh: THREE.Mesh, _trainMovementNetwork: any, routes: any[], isAtSignal: boolean, isBrokenDown: boolean) {
   const route = routes.find(r => r.id === train.routeId)
   if (!route) return
 
@@ -325,41 +372,112 @@ function updateTrainVisuals(train: any, mesh: THREE.Mesh, _trainMovementNetwork:
     ;(mesh.material as THREE.MeshPhysicalMaterial).emissive = new THREE.Color(route.color).multiplyScalar(0.3)
   }
 
+  // --- Manage Carriages ---
+  // Attached carriages trail the locomotive as smaller copies of it
+  if (mesh.userData.carriages !== train.carriages) {
+    mesh.userData.carriages = train.carriages
+    mesh.children
+      .filter(child => child.userData.type === 'train-carriage')
+      .forEach(carriage => mesh.remove(carriage))
+
+    for (let i = 0; i < train.carriages; i++) {
+      const carriage = new THREE.Mesh(mesh.geometry, mesh.material)
+      carriage.position.set(-(i + 1) * 2.1, 0, -0.1)
+      carriage.scale.set(0.9, 0.8, 0.8)
+      carriage.userData = { type: 'train-carriage' }
+      mesh.add(carriage)
+    }
+  }
+
+  // --- Manage Express Marker ---
+  // Express trains carry a white band along the locomotive
+  if (mesh.userData.isExpress !== train.isExpress) {
+    mesh.userData.isExpress = train.isExpress
+    mesh.children
+      .filter(child => child.userData.type === 'train-express-marker')
+      .forEach(marker => disposeObject(marker))
+
+    if (train.isExpress) {
+      const marker = new THREE.Mesh(
+        new THREE.BoxGeometry(2.05, 0.5, 1.05),
+        new THREE.MeshBasicMaterial({ color: 0xffffff })
+      )
+      marker.userData = { type: 'train-express-marker' }
+      mesh.add(marker)
+    }
+  }
+
+  // --- Manage Signal Marker ---
+  // A red lamp over trains held at a signal by an occupied block ahead
+  if (mesh.userData.isAtSignal !== isAtSignal) {
+    mesh.userData.isAtSignal = isAtSignal
+    mesh.children
+      .filter(child => child.userData.type === 'train-signal-marker')
+      .forEach(marker => disposeObject(marker))
+
+    if (isAtSignal) {
+      const marker = new THREE.Mesh(
+        new THREE.SphereGeometry(0.4, 12, 8),
+        new THREE.MeshBasicMaterial({ color: 0xff3b30 })
+      )
+      marker.position.set(1.3, 0, 1.2)
+      marker.userData = { type: 'train-signal-marker' }
+      mesh.add(marker)
+    }
+  }
+
+  // --- Manage Breakdown Marker ---
+  // An amber beacon over trains that have broken down
+  if (mesh.userData.isBrokenDown !== isBrokenDown) {
+    mesh.userData.isBrokenDown = isBrokenDown
+    mesh.children
+      .filter(child => child.userData.type === 'train-breakdown-marker')
+      .forEach(marker => disposeObject(marker))
+
+    if (isBrokenDown) {
+      const marker = new THREE.Mesh(
+        new THREE.OctahedronGeometry(0.6),
+        new THREE.MeshBasicMaterial({ color: 0xff9500 })
+      )
+      marker.position.set(0, 0, 2)
+      marker.userData = { type: 'train-breakdown-marker' }
+      mesh.add(marker)
+    }
+  }
+
   // --- Manage Train Passengers ---
-  // Only update passengers if the count actually changed
+  // Only rebuild passenger shapes if the on-board mix actually changed
   const existingPassengers = mesh.children.filter(child => child.userData.type === 'train-passenger')
-  const currentVisualPassengerCount = existingPassengers.length
-  const newVisualPassengerCount = train.passengerCount > 0 ? Math.min(train.passengerCount, PERFORMANCE_CONFIG.maxTrainPassengers) : 0
+  const visiblePassengers = train.passengers.slice(0, PERFORMANCE_CONFIG.maxTrainPassengers)
+  const passengerSignature = visiblePassengers.map((p: { destinationType: StationType }) => p.destinationType).join(',')
   
-  if (currentVisualPassengerCount !== newVisualPassengerCount) {
-    // Remove all existing passenger dots
-    existingPassengers.forEach(passenger => disposeObject(passenger))
-
-    // Add new passenger dots if train has passengers
-    if (newVisualPassengerCount > 0 && sharedGeometries.trainPassengerGeometry && sharedGeometries.trainPassengerMaterial) {
-      for (let passengerIndex = 0; passengerIndex < newVisualPassengerCount; passengerIndex++) {
-        // Reuse shared geometry and material
-        const dot = new THREE.Mesh(
-          sharedGeometries.trainPassengerGeometry,
-          sharedGeometries.trainPassengerMaterial
-        )
-        
-        // Position dots in a flat grid pattern above the train
-        const dotsPerRow = 3
-        const row = Math.floor(passengerIndex / dotsPerRow)
-        const col = passengerIndex % dotsPerRow
-        
-        // Arrange dots in a flat grid above the train (X-Y plane)
-        dot.position.set(
-          (col - 1) * 0.5,     // X: -0.5, 0, 0.5 for columns 0, 1, 2
-          (row - 0.5) * 0.5,   // Y: -0.25, 0.25 for rows 0, 1 (centered)
-          1.2                  // Z: Fixed height above the train
-        )
-        dot.scale.set(1.2, 1.2, 1.2) // 20% larger
-        dot.userData = { type: 'train-passenger' }
-        mesh.add(dot)
-      }
-    }
+  if (mesh.userData.passengerSignature !== passengerSignature) {
+    mesh.userData.passengerSignature = passengerSignature
+
+    // Remove existing passenger shapes - geometry and material are shared, so only detach them
+    existingPassengers.forEach(passenger => mesh.remove(passenger))
+
+    visiblePassengers.forEach((passenger: { destinationType: StationType }, passengerIndex: number) => {
+      const dot = new THREE.Mesh(
+        getPassengerGeometry(passenger.destinationType, true),
+        getPassengerMaterial(true)
+      )
+      
+      // Position dots in a flat grid pattern above the train
+      const dotsPerRow = 3
+      const row = Math.floor(passengerIndex / dotsPerRow)
+      const col = passengerIndex % dotsPerRow
+      
+      // Arrange dots in a flat grid above the train (X-Y plane)
+      dot.position.set(
+        (col - 1) * 0.5,     // X: -0.5, 0, 0.5 for columns 0, 1, 2
+        (row - 0.5) * 0.5,   // Y: -0.25, 0.25 for rows 0, 1 (centered)
+        1.2                  // Z: Fixed height above the train
+      )
+      dot.scale.set(1.2, 1.2, 1.2) // 20% larger
+      dot.userData = { type: 'train-passenger' }
+      mesh.add(dot)
+    })
   }
 }
 
@@ -368,6 +486,12 @@ interface GameThreeLayerProps {
   selectedStationId?: string | null
 }
 
+// Lighting at midday and midnight
+const DAY_EXPOSURE = 1.8
+const NIGHT_EXPOSURE = 1.0
+const DAY_AMBIENT_COLOR = new THREE.Color(0xffffff)
+const NIGHT_AMBIENT_COLOR = new THREE.Color(0x8fa4ff)
+
 const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerProps) => {
   // Get game data and cached route network from store
   const { 
@@ -376,8 +500,28 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
     trains, 
     trainMovementNetwork, 
     visualRouteNetwork, 
-    useParallelVisualization 
+    useParallelVisualization,
+    waterSource,
+    difficulty,
+    elapsedTime,
+    blockSignalling,
+    disruptions
   } = useGameStore()
+
+  // Stretches of each line over water - only recomputed when lines change or more water loads.
+  // Moving a station (sandbox modes only) replaces the routes too, so the latest positions can be read directly.
+  const routeWaterCrossings = useMemo(() => {
+    const currentStations = useGameStore.getState().stations
+    return new Map<string, WaterCrossing[]>(routes.map(route => [
+      route.id,
+      getRouteTracks(route).flatMap(track => {
+        const positions = track.stations
+          .map(stationId => currentStations.find(s => s.id === stationId)?.position)
+          .filter((position): position is LngLat => !!position)
+        return findRouteWaterCrossings(positions, waterSource).flat()
+      })
+    ]))
+  }, [routes, waterSource])
   const mapContext = useMap()
   const layerRef = useRef<any>(null) // eslint-disable-line @typescript-eslint/no-explicit-any
   // Mobile reinitialization trigger - while this is a state for side effects pattern,
@@ -398,10 +542,6 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
   // Shared geometries and materials for performance
   // TODO: Migrate to factories incrementally
   const sharedGeometriesRef = useRef<{
-    passengerGeometry?: THREE.CylinderGeometry
-    trainPassengerGeometry?: THREE.CylinderGeometry
-    passengerMaterial?: THREE.MeshBasicMaterial
-    trainPassengerMaterial?: THREE.MeshBasicMaterial
     selectionRingGeometry?: THREE.RingGeometry
     selectionRingMaterial?: THREE.MeshBasicMaterial
     unconnectedRingGeometry?: THREE.RingGeometry
@@ -412,9 +552,9 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
   
   // Instanced meshes for passengers
   const instancedMeshesRef = useRef<{
-    stationPassengers?: THREE.InstancedMesh
+    stationPassengers: Map<StationType, THREE.InstancedMesh>
     trainPassengers?: THREE.InstancedMesh
-  }>({})
+  }>({ stationPassengers: new Map() })
   
   // Performance optimization: reusable matrix objects and material caching
   const matrixRef = useRef(new THREE.Matrix4())
@@ -452,6 +592,7 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
       camera: undefined as THREE.Camera | undefined,
       scene: undefined as THREE.Scene | undefined,
       renderer: undefined as THREE.WebGLRenderer | undefined,
+      ambientLight: undefined as THREE.AmbientLight | undefined,
       
       onAdd: function(mapInstance: any, gl: WebGLRenderingContext | WebGL2RenderingContext) { // eslint-disable-line @typescript-eslint/no-explicit-any
         console.log('Three.js layer onAdd called')
@@ -487,6 +628,7 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
         // Much brighter ambient light for vibrant saturated colors
         const ambientLight = new THREE.AmbientLight(0xffffff, 2.5)
         this.scene.add(ambientLight)
+        this.ambientLight = ambientLight // Tinted by the day/night cycle
         
         // Create renderer
         this.renderer = new THREE.WebGLRenderer({
@@ -500,7 +642,7 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
         this.renderer.shadowMap.enabled = true
         this.renderer.shadowMap.type = THREE.PCFSoftShadowMap
         this.renderer.toneMapping = THREE.ACESFilmicToneMapping
-        this.renderer.toneMappingExposure = 1.8 // Higher exposure for brighter, more saturated colors
+        this.renderer.toneMappingExposure = DAY_EXPOSURE // Higher exposure for brighter, more saturated colors
         this.renderer.outputColorSpace = THREE.SRGBColorSpace
         
         // Wait for next frame to ensure renderer is fully initialized
@@ -521,28 +663,7 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
         
         // Initialize optimized geometries and materials for maximum performance
         // TODO: Migrate to individual factories
-        // Use simple cylinders instead of spheres for passengers - much more efficient
-        sharedGeometriesRef.current.passengerGeometry = new THREE.CylinderGeometry(
-          0.15, // radiusTop
-          0.15, // radiusBottom  
-          0.3,  // height
-          6,    // radialSegments (very low for performance)
-          1     // heightSegments
-        )
-        sharedGeometriesRef.current.trainPassengerGeometry = new THREE.CylinderGeometry(
-          0.1,  // radiusTop
-          0.1,  // radiusBottom
-          0.2,  // height  
-          6,    // radialSegments (very low for performance)
-          1     // heightSegments
-        )
-        // Use basic materials for all passengers - no lighting calculations needed
-        sharedGeometriesRef.current.passengerMaterial = new THREE.MeshBasicMaterial({ 
-          color: 0x555555,
-        })
-        sharedGeometriesRef.current.trainPassengerMaterial = new THREE.MeshBasicMaterial({ 
-          color: 0x333333,
-        })
+        // Passenger shapes come from the passenger factory (one geometry per destination type)
         
         // Initialize selection ring geometry and material
         sharedGeometriesRef.current.selectionRingGeometry = new THREE.RingGeometry(
@@ -745,12 +866,17 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
         selectedStationId || null, 
         routes, 
         sharedGeometriesRef.current, 
-        distressMaterialCacheRef.current
+        distressMaterialCacheRef.current,
+        difficulty,
+        elapsedTime
       ),
       disposeObject
     )
     
     // Sync all train objects
+    const trainsAtSignals = blockSignalling ? findTrainsAtSignals(trains, routes, trainMovementNetwork) : new Set<string>()
+    findTrainsAtFailedSignals(trains, routes, disruptions).forEach(trainId => trainsAtSignals.add(trainId))
+    const brokenDownTrains = getBrokenDownTrains(disruptions)
     syncObjects(
       trains,
       trainObjects.current,
@@ -774,14 +900,15 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
         cube.userData = { type: 'train', trainId: train.id }
         return cube
       },
-      (train, mesh) => updateTrainVisuals(train, mesh, trainMovementNetwork, routes, sharedGeometriesRef.current),
+      (train, mesh) => updateTrainVisuals(train, mesh, trainMovementNetwork, routes, trainsAtSignals.has(train.id), brokenDownTrains.has(train.id)),
       disposeObject
     )
 
     // Handle route rendering (simplified for now - routes don't need complex lifecycle management)
     // Clear existing routes
     const existingRoutes = scene.children.filter((child: THREE.Object3D) => 
-      child.userData && (child.userData.type === 'route' || child.userData.type === 'route-simple')
+      child.userData && (child.userData.type === 'route' || child.userData.type === 'route-simple' ||
+        child.userData.type === 'route-crossing' || child.userData.type === 'disruption')
     )
     existingRoutes.forEach((route: THREE.Object3D) => {
       disposeObject(route)
@@ -790,7 +917,8 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
 
     // Add new routes
     if (useParallelVisualization && visualRouteNetwork) {
-      routes.forEach(route => {
+      // A line's branches are drawn as their own tracks, in the line's colour
+      routes.flatMap(getRouteTracks).forEach(route => {
         if (route.stations.length < 2) return
         const visualRoute = visualRouteNetwork.routes.find((r: any) => r.routeId === route.id)
         if (!visualRoute) return
@@ -804,12 +932,13 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
           opacity: 0.8
         })
 
-        const line = new THREE.Line(geometry, material)
+        // Loops are drawn as a closed ring so the line runs on through the shared station
+        const line = visualRoute.isLoop ? new THREE.LineLoop(geometry, material) : new THREE.Line(geometry, material)
         line.userData = { type: 'route', routeId: route.id }
         scene.add(line)
       })
     } else {
-      routes.forEach(route => {
+      routes.flatMap(getRouteTracks).forEach(route => {
         if (route.stations.length < 2) return
 
         const routeStations = route.stations
@@ -848,62 +977,146 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
       })
     }
 
-    // Handle passenger rendering (instanced mesh approach)
-    const totalPassengers = stations.reduce((sum: number, station) => sum + (station.passengerCount || 0), 0)
-    const maxRenderPassengers = Math.min(totalPassengers, PERFORMANCE_CONFIG.maxRenderedPassengers)
+    // Water crossings are drawn as dashed tunnel sections over their line
+    routes.forEach(route => {
+      routeWaterCrossings.get(route.id)?.forEach((crossing, index) => {
+        const startMercator = MercatorCoordinate.fromLngLat([crossing.start.lng, crossing.start.lat], 0)
+        const endMercator = MercatorCoordinate.fromLngLat([crossing.end.lng, crossing.end.lat], 0)
+        const meterUnit = startMercator.meterInMercatorCoordinateUnits()
+
+        const points = [
+          new THREE.Vector3(startMercator.x, startMercator.y, startMercator.z + meterUnit * 2),
+          new THREE.Vector3(endMercator.x, endMercator.y, endMercator.z + meterUnit * 2)
+        ]
+        const geometry = new THREE.BufferGeometry().setFromPoints(points)
+        const material = new THREE.LineDashedMaterial({
+          color: 0xffffff,
+          dashSize: meterUnit * 40,
+          gapSize: meterUnit * 30,
+          linewidth: 4
+        })
 
-    // Remove existing passenger mesh if needed
-    const prevMesh = instancedMeshesRef.current.stationPassengers
-    if (prevMesh && (prevMesh.count !== maxRenderPassengers || totalPassengers === 0)) {
-      scene.remove(prevMesh)
-      prevMesh.dispose()
-      instancedMeshesRef.current.stationPassengers = undefined
-    }
+        const line = new THREE.Line(geometry, material)
+        line.computeLineDistances()
+        line.userData = { type: 'route-crossing', routeId: route.id, crossing: index }
+        scene.add(line)
+      })
+    })
 
-    // Add new passenger mesh if needed
-    if (totalPassengers > 0 && maxRenderPassengers > 0 && !instancedMeshesRef.current.stationPassengers) {
-      const geometry = sharedGeometriesRef.current.passengerGeometry!
-      const material = sharedGeometriesRef.current.passengerMaterial!
-      
-      const instancedMesh = new THREE.InstancedMesh(geometry, material, maxRenderPassengers)
-      instancedMesh.userData = { type: 'passengers' }
-      scene.add(instancedMesh)
-      instancedMeshesRef.current.stationPassengers = instancedMesh
+    // Suspended segments are drawn as dashed red lines and closed stations ringed in red
+    getSuspendedSegments(disruptions).forEach(segmentKey => {
+      const [start, end] = segmentKey.split('~').map(stationId => stations.find(s => s.id === stationId))
+      if (!start || !end) return
+      const startMercator = MercatorCoordinate.fromLngLat([start.position.lng, start.position.lat], 0)
+      const endMercator = MercatorCoordinate.fromLngLat([end.position.lng, end.position.lat], 0)
+      const meterUnit = startMercator.meterInMercatorCoordinateUnits()
+
+      const points = [
+        new THREE.Vector3(startMercator.x, startMercator.y, startMercator.z + meterUnit * 3),
+        new THREE.Vector3(endMercator.x, endMercator.y, endMercator.z + meterUnit * 3)
+      ]
+      const geometry = new THREE.BufferGeometry().setFromPoints(points)
+      const material = new THREE.LineDashedMaterial({
+        color: 0xff3b30,
+        dashSize: meterUnit * 30,
+        gapSize: meterUnit * 20,
+        linewidth: 4
+      })
 
-      // Position passengers around stations
-      const matrix = matrixRef.current
-      let instanceIndex = 0
+      const line = new THREE.Line(geometry, material)
+      line.computeLineDistances()
+      line.userData = { type: 'disruption', segmentKey }
+      scene.add(line)
+    })
+    getClosedStations(disruptions).forEach(stationId => {
+      const station = stations.find(s => s.id === stationId)
+      if (!station) return
+      const mercator = MercatorCoordinate.fromLngLat([station.position.lng, station.position.lat], 0)
+      const meterUnit = mercator.meterInMercatorCoordinateUnits()
+      const radius = meterUnit * 120
+
+      const points = Array.from({ length: 32 }, (_, i) => new THREE.Vector3(
+        mercator.x + Math.cos((i / 32) * Math.PI * 2) * radius,
+        mercator.y + Math.sin((i / 32) * Math.PI * 2) * radius,
+        mercator.z + meterUnit * 3
+      ))
+      const geometry = new THREE.BufferGeometry().setFromPoints(points)
+      const ring = new THREE.LineLoop(geometry, new THREE.LineBasicMaterial({ color: 0xff3b30, linewidth: 4 }))
+      ring.userData = { type: 'disruption', stationId }
+      scene.add(ring)
+    })
+
+    // Handle passenger rendering (one instanced mesh per destination type)
+    const totalPassengers = stations.reduce((sum: number, station) => sum + station.passengers.length, 0)
+    const maxRenderPassengers = Math.min(totalPassengers, PERFORMANCE_CONFIG.maxRenderedPassengers)
+
+    // Passengers board and alight constantly, so rebuild the meshes on every state change
+    instancedMeshesRef.current.stationPassengers.forEach(mesh => {
+      scene.remove(mesh)
+      mesh.dispose()
+    })
+    instancedMeshesRef.current.stationPassengers.clear()
+
+    if (totalPassengers > 0 && maxRenderPassengers > 0) {
+      // Lay passengers out in a ring around their station, grouped by the shape they want
+      const placements = new Map<StationType, Array<{ x: number; y: number; z: number; scale: number }>>()
+      let renderedCount = 0
       stations.forEach(station => {
-        if (station.passengerCount && station.passengerCount > 0 && instanceIndex < maxRenderPassengers) {
+        if (station.passengers.length > 0 && renderedCount < maxRenderPassengers) {
           const mercator = MercatorCoordinate.fromLngLat([station.position.lng, station.position.lat], 0)
           const meterUnit = mercator.meterInMercatorCoordinateUnits()
           const scale = meterUnit * 50
           const ringRadius = 80 * meterUnit
           const passengersToRender = Math.min(
-            station.passengerCount,
-            maxRenderPassengers - instanceIndex,
+            station.passengers.length,
+            maxRenderPassengers - renderedCount,
             PERFORMANCE_CONFIG.maxPassengersPerStation
           )
           for (let idx = 0; idx < passengersToRender; idx++) {
             const angle = (idx / Math.max(passengersToRender, 8)) * Math.PI * 2
-            const offsetX = Math.cos(angle) * ringRadius
-            const offsetY = Math.sin(angle) * ringRadius
-            matrix.makeScale(scale, scale, scale)
-            matrix.setPosition(
-              mercator.x + offsetX,
-              mercator.y + offsetY,
-              mercator.z + meterUnit * 5
-            )
-            instancedMesh.setMatrixAt(instanceIndex, matrix)
-            instanceIndex++
+            const destinationType = station.passengers[idx].destinationType
+            if (!placements.has(destinationType)) placements.set(destinationType, [])
+            placements.get(destinationType)!.push({
+              x: mercator.x + Math.cos(angle) * ringRadius,
+              y: mercator.y + Math.sin(angle) * ringRadius,
+              z: mercator.z + meterUnit * 5,
+              scale
+            })
+            renderedCount++
           }
         }
       })
-      instancedMesh.count = instanceIndex
-      instancedMesh.instanceMatrix.needsUpdate = true
+
+      const matrix = matrixRef.current
+      placements.forEach((points, destinationType) => {
+        const instancedMesh = new THREE.InstancedMesh(
+          getPassengerGeometry(destinationType),
+          getPassengerMaterial(),
+          points.length
+        )
+        instancedMesh.userData = { type: 'passengers', destinationType }
+        points.forEach((point, index) => {
+          matrix.makeScale(point.scale, point.scale, point.scale)
+          matrix.setPosition(point.x, point.y, point.z)
+          instancedMesh.setMatrixAt(index, matrix)
+        })
+        instancedMesh.instanceMatrix.needsUpdate = true
+        scene.add(instancedMesh)
+        instancedMeshesRef.current.stationPassengers.set(destinationType, instancedMesh)
+      })
     }
 
-  }, [stations, routes, trains, selectedStationId, visualRouteNetwork, useParallelVisualization])
+  }, [stations, routes, trains, selectedStationId, visualRouteNetwork, useParallelVisualization, routeWaterCrossings, difficulty, elapsedTime, blockSignalling, disruptions])
+
+  // Day/night cycle - dim the exposure and cool the ambient light after dark
+  useEffect(() => {
+    const layer = layerRef.current
+    if (!layer?.renderer || !layer.ambientLight) return
+
+    const daylight = getDaylight(getGameClock(elapsedTime).hour)
+    layer.renderer.toneMappingExposure = NIGHT_EXPOSURE + (DAY_EXPOSURE - NIGHT_EXPOSURE) * daylight
+    layer.ambientLight.color.lerpColors(NIGHT_AMBIENT_COLOR, DAY_AMBIENT_COLOR, daylight)
+  }, [elapsedTime])
 
   // Separate effect for train position updates (runs more frequently)
   useEffect(() => {
@@ -913,7 +1126,7 @@ const GameThreeLayer = ({ onStationClick, selectedStationId }: GameThreeLayerPro
     trainObjects.current.forEach((mesh, trainId) => {
       const train = trains.find(t => t.id === trainId)
       if (train) {
-        const trainLngLat = getTrainPositionFromMovementNetwork(trainMovementNetwork, train.routeId, train.position)
+        const trainLngLat = getTrainPositionFromMovementNetwork(trainMovementNetwork, getTrainPatternKey(train), train.position)
         const trainMercator = MercatorCoordinate.fromLngLat([trainLngLat.lng, trainLngLat.lat], 0)
         const scale = trainMercator.meterInMercatorCoordinateUnits() * 30
         
@@ -1,12 +1,25 @@
-import { useState } from 'react';
+import { useRef, useState, type ChangeEvent } from 'react';
 import type { GameState } from '../types';
 import { useGameStore } from '../store/gameStore';
 import AttributionPopup from './AttributionPopup';
 import CitySearch from './CitySearch';
-import { getCurrentCity, setCurrentCity, type City } from '../utils/cityStorage';
+import RouteControls from './RouteControls';
+import InventoryBar from './InventoryBar';
+import DisruptionFeed from './DisruptionFeed';
+import SpecialEventsList from './SpecialEventsList';
+import Ledger from './Ledger';
+import NewGameOptions from './NewGameOptions';
+import { getCurrentCity, getCityById, setCurrentCity, type City } from '../utils/cityStorage';
+import { createSaveGame, downloadSaveGame, parseSaveGame, suspendAutosave, writeAutosave } from '../utils/saveGame';
+import { createReplay, downloadReplay, parseReplay } from '../utils/replay';
+import { STATION_TYPE_SYMBOLS } from '../utils/stationTypes';
+import { WEEKDAY_NAMES, formatClockTime, getGameClock, isRushHour } from '../utils/clock';
+import { routeServesStation } from '../utils/servicePatterns';
+import { VENUE_ICONS, VENUE_LABELS } from '../utils/specialEvents';
+import { PATIENCE_CONFIG } from '../config/gameConfig';
 
 interface GameUIProps {
-  gameState: Pick<GameState, 'score' | 'stations' | 'routes' | 'trains' | 'isPlaying' | 'gameSpeed'>;
+  gameState: Pick<GameState, 'score' | 'stations' | 'routes' | 'trains' | 'isPlaying' | 'gameSpeed' | 'inventory' | 'elapsedTime' | 'reputation' | 'money' | 'ledger' | 'disruptionFeed' | 'specialEvents'>;
   onReset: () => void;
   onCreateRoute: (stationIds: string[]) => void;
   onStationSelectFromList?: (stationId: string) => void;
@@ -16,16 +29,21 @@ const isMobile = () => typeof window !== 'undefined' && window.innerWidth <= 768
 
 export default function GameUI({ gameState, onStationSelectFromList }: GameUIProps) {
   const [showStations, setShowStations] = useState(false);
+  const [showRoutes, setShowRoutes] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [showAttributions, setShowAttributions] = useState(false);
   const [showCitySearch, setShowCitySearch] = useState(false);
   const [currentCity, setCurrentCityState] = useState<City>(getCurrentCity());
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const saveFileInputRef = useRef<HTMLInputElement>(null);
+  const replayFileInputRef = useRef<HTMLInputElement>(null);
   const mobile = isMobile();
-  const { useParallelVisualization, toggleVisualization, changeCity } = useGameStore();
+  const clock = getGameClock(gameState.elapsedTime);
+  const { useParallelVisualization, toggleVisualization, changeCity, loadGame, startPlayback } = useGameStore();
 
   // Helper function to get routes connected to a station
   const getConnectedRoutes = (stationId: string) => {
-    return gameState.routes.filter(route => route.stations.includes(stationId));
+    return gameState.routes.filter(route => routeServesStation(route, stationId));
   };
 
   // Handle city selection
@@ -35,6 +53,105 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
     changeCity(); // Reset game and reload with new city
   };
 
+  // Download the current game as a .json save file
+  const handleExportSave = () => {
+    downloadSaveGame(createSaveGame(useGameStore.getState(), currentCity.id));
+  };
+
+  // Load a .json save file, switching city first if the save was made elsewhere
+  const handleImportSave = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      const save = parseSaveGame(await file.text());
+      setSaveError(null);
+      if (save.cityId === currentCity.id) {
+        loadGame(save);
+        return;
+      }
+
+      const city = getCityById(save.cityId);
+      if (!city) {
+        throw new Error(`Save file is for an unknown city (${save.cityId})`);
+      }
+      // City settings are fixed at startup, so reload into the save via the autosave slot
+      writeAutosave(save);
+      suspendAutosave();
+      setCurrentCity(city);
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to import save file:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to import save file');
+    }
+  };
+
+  // Download the current game's recording as a .json replay file
+  const handleExportReplay = () => {
+    const { replayLog, tick } = useGameStore.getState();
+    downloadReplay(createReplay(replayLog, currentCity.id, tick));
+  };
+
+  // Play back a .json replay file recorded in the current city
+  const handleWatchReplay = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const replay = parseReplay(await file.text());
+      if (replay.cityId !== currentCity.id) {
+        const city = getCityById(replay.cityId);
+        throw new Error(`Replay was recorded in ${city?.name ?? replay.cityId} - switch city to watch it`);
+      }
+      setSaveError(null);
+      startPlayback(replay);
+    } catch (error) {
+      console.error('Failed to load replay file:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to load replay file');
+    }
+  };
+
+  // Passengers giving up cost reputation - shown as a warning once it is down to half
+  const reputationStat = (
+    <div className={`stat-item reputation${gameState.reputation < PATIENCE_CONFIG.maxReputation / 2 ? ' low' : ''}`}>
+      <span className="stat-value" data-testid="reputation">{Math.round(gameState.reputation)}</span>
+      <span className="stat-label">Reputation</span>
+    </div>
+  );
+
+  const clockStat = (
+    <div className={`stat-item clock${isRushHour(clock.hour) ? ' rush-hour' : ''}`}>
+      <span className="stat-value" data-testid="clock">
+        {WEEKDAY_NAMES[clock.dayOfWeek]} {formatClockTime(clock)}
+      </span>
+      <span className="stat-label">Week {clock.week + 1}</span>
+    </div>
+  );
+
+  const saveFileInput = (
+    <input
+      ref={saveFileInputRef}
+      type="file"
+      accept=".json,application/json"
+      style={{ display: 'none' }}
+      onChange={handleImportSave}
+      data-testid="import-save-input"
+    />
+  );
+
+  const replayFileInput = (
+    <input
+      ref={replayFileInputRef}
+      type="file"
+      accept=".json,application/json"
+      style={{ display: 'none' }}
+      onChange={handleWatchReplay}
+      data-testid="watch-replay-input"
+    />
+  );
+
   if (mobile) {
     return (
       <div className="game-ui-mobile">
@@ -50,15 +167,24 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
               <span className="stat-label">Stations</span>
             </div>
             <div className="stat-item">
-              <span className="stat-value" data-testid="passengers-count">{gameState.stations.reduce((total, station) => total + (station.passengerCount || 0), 0)}</span>
+              <span className="stat-value" data-testid="passengers-count">{gameState.stations.reduce((total, station) => total + station.passengers.length, 0)}</span>
               <span className="stat-label">Passengers</span>
             </div>
+            {reputationStat}
+            {clockStat}
           </div>
         </div>
+        <InventoryBar inventory={gameState.inventory} />
+        <Ledger money={gameState.money} ledger={gameState.ledger} trains={gameState.trains} />
+        <DisruptionFeed events={gameState.disruptionFeed} />
+        <SpecialEventsList events={gameState.specialEvents} stations={gameState.stations} elapsedTime={gameState.elapsedTime} />
         <div className="game-ui-mobile-buttons">
           <button onClick={() => setShowStations((s) => !s)}>
             Stations
           </button>
+          <button onClick={() => setShowRoutes((s) => !s)}>
+            Lines
+          </button>
           <button onClick={() => setShowInstructions((s) => !s)}>
             Instructions
           </button>
@@ -69,6 +195,23 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
             About
           </button>
         </div>
+        <div className="game-ui-mobile-buttons">
+          <button onClick={handleExportSave} data-testid="export-save">
+            Export
+          </button>
+          <button onClick={() => saveFileInputRef.current?.click()} data-testid="import-save">
+            Import
+          </button>
+          {saveFileInput}
+          <button onClick={handleExportReplay} data-testid="export-replay">
+            Replay
+          </button>
+          <button onClick={() => replayFileInputRef.current?.click()} data-testid="watch-replay">
+            Watch
+          </button>
+          {replayFileInput}
+        </div>
+        {saveError && <div className="save-error">{saveError}</div>}
         
         {showCitySearch && (
           <div className="city-selector-mobile">
@@ -92,6 +235,8 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
                   onClick={() => onStationSelectFromList?.(station.id)}
                 >
                   <div className="station-info">
+                    <span className="station-type-symbol">{STATION_TYPE_SYMBOLS[station.type]}</span>
+                    {station.venue && <span className="station-venue-icon" title={VENUE_LABELS[station.venue]}>{VENUE_ICONS[station.venue]}</span>}
                     <span className="station-name">{station.name ? station.name : `Stn ${station.id.slice(-4)}`}</span>
                     <div className="route-indicators">
                       {getConnectedRoutes(station.id).map(route => (
@@ -102,8 +247,8 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
                         ></div>
                       ))}
                     </div>
-                    {(station.passengerCount || 0) > 0 && (
-                      <div className="passenger-badge">{station.passengerCount}</div>
+                    {station.passengers.length > 0 && (
+                      <div className="passenger-badge">{station.passengers.length}</div>
                     )}
                   </div>
                 </div>
@@ -111,8 +256,12 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
             </div>
           </div>
         )}
+        {showRoutes && (
+          <RouteControls routes={gameState.routes} trains={gameState.trains} inventory={gameState.inventory} mobile />
+        )}
         {showInstructions && (
           <div className="instructions-section mobile">
+            <NewGameOptions buttonClassName="save-toggle" />
             <div className="instruction-item">
               <span className="instruction-icon">🚉</span>
               <span>Stations spawn automatically</span>
@@ -121,10 +270,54 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
               <span className="instruction-icon">🔗</span>
               <span>Drag between stations to connect</span>
             </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">✂️</span>
+              <span>Drag a line end back to shorten it, or far away to delete it</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">↪️</span>
+              <span>Drag a line onto a station to re-route it</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">🔁</span>
+              <span>Drag a line end onto its other end to make a loop</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">🔀</span>
+              <span>Drag from a station part way along a line to branch it</span>
+            </div>
             <div className="instruction-item">
               <span className="instruction-icon">👥</span>
               <span>Trains pick up waiting passengers</span>
             </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">🎁</span>
+              <span>Each week brings a locomotive and an upgrade of your choice</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">🌉</span>
+              <span>Lines crossing water use a tunnel</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">💰</span>
+              <span>Fares pay for new track and each week's train running costs - don't go bankrupt</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">⭐</span>
+              <span>Long, quick journeys with few changes of train score the most</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">🌆</span>
+              <span>Expect crowds in the morning and evening rush hours</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">🚦</span>
+              <span>Breakdowns, closures and signal failures strike at random - give passengers another way round</span>
+            </div>
+            <div className="instruction-item">
+              <span className="instruction-icon">🏟️</span>
+              <span>Stadiums and concert halls announce events a day ahead - crowds head for the venue itself</span>
+            </div>
           </div>
         )}
         <AttributionPopup 
@@ -150,11 +343,17 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
             <span className="stat-label">Stations</span>
           </div>
           <div className="stat-item">
-            <span className="stat-value" data-testid="passengers-count">{gameState.stations.reduce((total, station) => total + (station.passengerCount || 0), 0)}</span>
+            <span className="stat-value" data-testid="passengers-count">{gameState.stations.reduce((total, station) => total + station.passengers.length, 0)}</span>
             <span className="stat-label">Passengers</span>
           </div>
+          {reputationStat}
+          {clockStat}
         </div>
       </div>
+      <InventoryBar inventory={gameState.inventory} />
+      <Ledger money={gameState.money} ledger={gameState.ledger} trains={gameState.trains} />
+      <DisruptionFeed events={gameState.disruptionFeed} />
+      <SpecialEventsList events={gameState.specialEvents} stations={gameState.stations} elapsedTime={gameState.elapsedTime} />
       <div className="city-selector-desktop">
         <CitySearch
           onCitySelect={handleCitySelect}
@@ -174,6 +373,8 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
               onClick={() => onStationSelectFromList?.(station.id)}
             >
               <div className="station-info">
+                <span className="station-type-symbol">{STATION_TYPE_SYMBOLS[station.type]}</span>
+                {station.venue && <span className="station-venue-icon" title={VENUE_LABELS[station.venue]}>{VENUE_ICONS[station.venue]}</span>}
                 <span className="station-name">{station.name ? station.name : `Stn ${station.id.slice(-4)}`}</span>
                 <div className="route-indicators">
                   {getConnectedRoutes(station.id).map(route => (
@@ -184,14 +385,15 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
                     ></div>
                   ))}
                 </div>
-                {(station.passengerCount || 0) > 0 && (
-                  <div className="passenger-badge">{station.passengerCount}</div>
+                {station.passengers.length > 0 && (
+                  <div className="passenger-badge">{station.passengers.length}</div>
                 )}
               </div>
             </div>
           ))}
         </div>
       </div>
+      <RouteControls routes={gameState.routes} trains={gameState.trains} inventory={gameState.inventory} />
       <div className="instructions-section">
         <div className="instruction-item">
           <span className="instruction-icon">🚉</span>
@@ -201,14 +403,78 @@ export default function GameUI({ gameState, onStationSelectFromList }: GameUIPro
           <span className="instruction-icon">🔗</span>
           <span>Drag between stations to connect</span>
         </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">✂️</span>
+          <span>Drag a line end back to shorten it, or far away to delete it</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">↪️</span>
+          <span>Drag a line onto a station to re-route it</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">🔁</span>
+          <span>Drag a line end onto its other end to make a loop</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">🔀</span>
+          <span>Drag from a station part way along a line to branch it</span>
+        </div>
         <div className="instruction-item">
           <span className="instruction-icon">👥</span>
           <span>Trains pick up waiting passengers</span>
         </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">🎁</span>
+          <span>Each week brings a locomotive and an upgrade of your choice</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">🌉</span>
+          <span>Lines crossing water use a tunnel</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">💰</span>
+          <span>Fares pay for new track and each week's train running costs - don't go bankrupt</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">⭐</span>
+          <span>Long, quick journeys with few changes of train score the most</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">🌆</span>
+          <span>Expect crowds in the morning and evening rush hours</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">🚦</span>
+          <span>Breakdowns, closures and signal failures strike at random - give passengers another way round</span>
+        </div>
+        <div className="instruction-item">
+          <span className="instruction-icon">🏟️</span>
+          <span>Stadiums and concert halls announce events a day ahead - crowds head for the venue itself</span>
+        </div>
         <div className="visualization-controls">
           <button style={{display:'none'}} onClick={toggleVisualization} className="visualization-toggle">
             {useParallelVisualization ? 'Simple View' : 'Parallel View'}
           </button>
+          <div className="save-controls">
+            <button onClick={handleExportSave} className="save-toggle" data-testid="export-save">
+              Export Save
+            </button>
+            <button onClick={() => saveFileInputRef.current?.click()} className="save-toggle" data-testid="import-save">
+              Import Save
+            </button>
+            {saveFileInput}
+          </div>
+          <div className="save-controls">
+            <button onClick={handleExportReplay} className="save-toggle" data-testid="export-replay">
+              Export Replay
+            </button>
+            <button onClick={() => replayFileInputRef.current?.click()} className="save-toggle" data-testid="watch-replay">
+              Watch Replay
+            </button>
+            {replayFileInput}
+          </div>
+          {saveError && <div className="save-error">{saveError}</div>}
+          <NewGameOptions buttonClassName="save-toggle" />
           <button onClick={() => setShowAttributions(true)} className="attribution-toggle">
             About & Credits
           </button>
@@ -0,0 +1,26 @@
+import type { Inventory, ResourceType } from '../types';
+import { RESOURCE_ICONS, RESOURCE_LABELS } from '../utils/resources';
+
+interface InventoryBarProps {
+  inventory: Inventory;
+}
+
+const RESOURCE_ORDER: ResourceType[] = ['lines', 'locomotives', 'carriages', 'tunnels', 'interchanges'];
+
+// Remaining resources available to build with
+export default function InventoryBar({ inventory }: InventoryBarProps) {
+  return (
+    <div className="inventory-bar" data-testid="inventory">
+      {RESOURCE_ORDER.map(resource => (
+        <div
+          key={resource}
+          className={`inventory-item${inventory[resource] === 0 ? ' empty' : ''}`}
+          title={`${RESOURCE_LABELS[resource]} available`}
+        >
+          <span className="inventory-icon">{RESOURCE_ICONS[resource]}</span>
+          <span className="inventory-count" data-testid={`inventory-${resource}`}>{inventory[resource]}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import type { Ledger as LedgerState, LedgerTotals, Train } from '../types';
+import { ECONOMY_CONFIG } from '../config/gameConfig';
+import { LEDGER_CATEGORIES, LEDGER_LABELS, formatMoney, getNetTotal, getRunningCosts, isIncome } from '../utils/economy';
+
+interface LedgerProps {
+  money: number;
+  ledger: LedgerState;
+  trains: Train[];
+}
+
+const COLUMNS: Array<{ label: string; pick: (ledger: LedgerState) => LedgerTotals | null }> = [
+  { label: 'This week', pick: ledger => ledger.thisWeek },
+  { label: 'Last week', pick: ledger => ledger.lastWeek },
+  { label: 'Total', pick: ledger => ledger.total }
+];
+
+// Balance, with the week's income and expenses broken down on demand
+export default function Ledger({ money, ledger, trains }: LedgerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const runningCosts = getRunningCosts(trains);
+  // Warn once the next week's running costs would take the balance into the overdraft
+  const isLow = money - runningCosts < 0;
+
+  return (
+    <div className="ledger" data-testid="ledger">
+      <button
+        className={`ledger-summary${isLow ? ' low' : ''}`}
+        onClick={() => setExpanded(e => !e)}
+        title={`Overdraft limit ${formatMoney(ECONOMY_CONFIG.overdraftLimit)}`}
+        data-testid="ledger-toggle"
+      >
+        <span className="ledger-balance" data-testid="money">{formatMoney(money)}</span>
+        <span className="ledger-running-costs">{formatMoney(runningCosts)}/week to run</span>
+        <span className="ledger-toggle-icon">{expanded ? '▾' : '▸'}</span>
+      </button>
+      {expanded && (
+        <table className="ledger-table" data-testid="ledger-table">
+          <thead>
+            <tr>
+              <th />
+              {COLUMNS.map(column => <th key={column.label}>{column.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {LEDGER_CATEGORIES.map(category => (
+              <tr key={category} className={isIncome(category) ? 'income' : 'expense'} data-testid={`ledger-${category}`}>
+                <td>{LEDGER_LABELS[category]}</td>
+                {COLUMNS.map(column => {
+                  const totals = column.pick(ledger);
+                  return (
+                    <td key={column.label}>
+                      {totals ? formatMoney(isIncome(category) ? totals[category] : -totals[category]) : '-'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr className="net">
+              <td>Net</td>
+              {COLUMNS.map(column => {
+                const totals = column.pick(ledger);
+                return <td key={column.label}>{totals ? formatMoney(getNetTotal(totals)) : '-'}</td>;
+              })}
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
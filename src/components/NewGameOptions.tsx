@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { useMapNavigation } from '../hooks/useMapNavigation';
+import { OVERLOAD_CONFIG } from '../config/gameConfig';
+import { GAME_MODES, getGameModeRules } from '../utils/gameModes';
+import { addHighScore, createHighScore } from '../utils/highScores';
+import { getCurrentCity } from '../utils/cityStorage';
+import type { Difficulty, GameMode } from '../types';
+
+const DIFFICULTIES = Object.keys(OVERLOAD_CONFIG.difficulties) as Difficulty[];
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard'
+};
+
+interface NewGameOptionsProps {
+  buttonClassName: string;
+}
+
+// Mode, difficulty and realism pickers with the button that starts a new game
+export default function NewGameOptions({ buttonClassName }: NewGameOptionsProps) {
+  const { mode: currentMode, difficulty: currentDifficulty, blockSignalling: currentSignalling, resetGame } = useGameStore();
+  const { resetMapToDefault } = useMapNavigation();
+  const [mode, setMode] = useState<GameMode>(currentMode);
+  const [difficulty, setDifficulty] = useState<Difficulty>(currentDifficulty);
+  const [blockSignalling, setBlockSignalling] = useState(currentSignalling);
+
+  const handleNewGame = () => {
+    // Games that can't be lost only end here, so their score is recorded when abandoned
+    const state = useGameStore.getState();
+    const rules = getGameModeRules(state.mode);
+    if (!state.isGameOver && !state.playback && !rules.canFail && rules.isRanked && state.score > 0) {
+      addHighScore(createHighScore(state, getCurrentCity().id));
+    }
+
+    // First reset the map viewport, then reset the game
+    // This ensures stations are placed in the new viewport bounds
+    resetMapToDefault();
+
+    // Wait for map animation to complete before resetting game
+    setTimeout(() => {
+      resetGame({ mode, difficulty, blockSignalling });
+    }, 1100); // Wait slightly longer than the map flyTo duration (1000ms)
+  };
+
+  return (
+    <div className="new-game-options">
+      <div className="new-game-selects">
+        <select value={mode} onChange={e => setMode(e.target.value as GameMode)} data-testid="mode-select">
+          {GAME_MODES.map(option => (
+            <option key={option} value={option}>{getGameModeRules(option).label}</option>
+          ))}
+        </select>
+        <select
+          value={difficulty}
+          onChange={e => setDifficulty(e.target.value as Difficulty)}
+          data-testid="difficulty-select"
+        >
+          {DIFFICULTIES.map(option => (
+            <option key={option} value={option}>{DIFFICULTY_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+      <label className="new-game-toggle" title="Trains wait for a clear block where lines share track">
+        <input
+          type="checkbox"
+          checked={blockSignalling}
+          onChange={e => setBlockSignalling(e.target.checked)}
+          data-testid="signalling-toggle"
+        />
+        Block signalling on shared track
+      </label>
+      <p className="new-game-description">{getGameModeRules(mode).description}</p>
+      <button className={buttonClassName} onClick={handleNewGame} data-testid="new-game">
+        Start New Game
+      </button>
+    </div>
+  );
+}
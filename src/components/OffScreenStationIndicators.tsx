@@ -2,6 +2,8 @@ import { useEffect, useRef, useCallback } from 'react';
 import { useMap } from '@mapcomponents/react-maplibre';
 import { useGameStore } from '../store/gameStore';
 import { useMapNavigation } from '../hooks/useMapNavigation';
+import { getOverloadTimeRemaining, isStationDistressed } from '../utils/overload';
+import { routeServesStation } from '../utils/servicePatterns';
 import type { LngLat } from '../types';
 
 interface IndicatorData {
@@ -18,7 +20,7 @@ interface IndicatorElement {
 }
 
 export default function OffScreenStationIndicators() {
-  const { stations, routes, selectStation } = useGameStore();
+  const { stations, routes, difficulty, elapsedTime, selectStation } = useGameStore();
   const mapHook = useMap();
   const { centerAndZoomToStation } = useMapNavigation();
   
@@ -84,8 +86,8 @@ export default function OffScreenStationIndicators() {
     const activeStations = new Map<string, IndicatorData>();
     
     stations.forEach((station) => {
-      const isConnected = routes.some(route => route.stations.includes(station.id));
-      const isDistressed = station.passengerCount >= 15;
+      const isConnected = routes.some(route => routeServesStation(route, station.id));
+      const isDistressed = isStationDistressed(station, difficulty);
       const shouldShow = !isConnected || isDistressed;
       
       if (!shouldShow) return;
@@ -206,10 +208,12 @@ export default function OffScreenStationIndicators() {
       indicator.element.style.top = `${edgeY}px`;
       indicator.element.style.transform = `translate(-50%, -50%)`;
       indicator.element.style.setProperty('--arrow-angle', `${angle + 90}deg`);
+      // Radial countdown of the overload grace period left, drawn around distressed indicators
+      indicator.element.style.setProperty('--countdown', `${getOverloadTimeRemaining(station, elapsedTime, difficulty)}`);
     });
     
     isUpdatingRef.current = false;
-  }, [mapHook?.map, stations, routes, createIndicator]);
+  }, [mapHook?.map, stations, routes, difficulty, elapsedTime, createIndicator]);
 
   // Throttled update handler
   const handleUpdate = useCallback(() => {
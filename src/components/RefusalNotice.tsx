@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { GAME_CONFIG } from '../config/gameConfig';
+
+// Briefly tells the player why the change they just tried to make to the network was refused
+export default function RefusalNotice() {
+  const refusal = useGameStore(state => state.refusal);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (!refusal) return;
+    setVisible(true);
+    const timeout = setTimeout(() => setVisible(false), GAME_CONFIG.refusalNoticeDuration);
+    return () => clearTimeout(timeout);
+  }, [refusal]);
+
+  if (!refusal || !visible) return null;
+
+  return (
+    <div className="refusal-notice" role="status" data-testid="refusal-notice">
+      {refusal.message}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useGameStore } from '../store/gameStore';
+import { SIMULATION_STEP_MS } from '../utils/simulation';
+
+function formatTick(tick: number): string {
+  const totalSeconds = Math.floor((tick * SIMULATION_STEP_MS) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Play/pause/scrub controls shown while a replay is playing back
+export default function ReplayControls() {
+  const { playback, tick, seekPlayback, setPlaybackPaused, stopPlayback } = useGameStore();
+
+  if (!playback) return null;
+
+  const { endTick } = playback.replay;
+
+  return (
+    <div className="replay-controls" data-testid="replay-controls">
+      <span className="replay-label">Replay</span>
+      <button
+        className="replay-button"
+        onClick={() => setPlaybackPaused(!playback.isPaused)}
+        disabled={!playback.isPaused && tick >= endTick}
+        data-testid="replay-play-pause"
+      >
+        {playback.isPaused ? '▶' : '⏸'}
+      </button>
+      <input
+        className="replay-scrubber"
+        type="range"
+        min={0}
+        max={endTick}
+        value={Math.min(tick, endTick)}
+        onChange={(event) => seekPlayback(Number(event.target.value))}
+        data-testid="replay-scrubber"
+      />
+      <span className="replay-time">
+        {formatTick(tick)} / {formatTick(endTick)}
+      </span>
+      <button className="replay-button" onClick={stopPlayback} data-testid="replay-exit">
+        Exit
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useGameStore } from '../store/gameStore';
+import { RESOURCE_CONFIG } from '../config/gameConfig';
+import { RESOURCE_ICONS, RESOURCE_LABELS } from '../utils/resources';
+
+// Weekly reward - the simulation waits here until the player picks an upgrade
+export default function RewardChoice() {
+  const { rewardChoice, week, playback, chooseReward } = useGameStore();
+
+  if (!rewardChoice) return null;
+
+  return (
+    <div className="game-over-overlay reward-overlay">
+      <div className="game-over-screen reward-screen" data-testid="reward-choice">
+        <div className="game-over-header">
+          <h2 className="game-over-title">Week {week + 1}</h2>
+          <p className="game-over-reason">
+            {RESOURCE_ICONS.locomotives} You received {RESOURCE_CONFIG.weeklyLocomotives} new locomotive. Choose an upgrade:
+          </p>
+        </div>
+        <div className="reward-options">
+          {rewardChoice.map(resource => (
+            <button
+              key={resource}
+              className="reward-option"
+              onClick={() => chooseReward(resource)}
+              disabled={playback !== null}
+              data-testid={`reward-${resource}`}
+            >
+              <span className="reward-icon">{RESOURCE_ICONS[resource]}</span>
+              <span className="reward-label">
+                +{RESOURCE_CONFIG.rewardAmounts[resource]} {RESOURCE_LABELS[resource]}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
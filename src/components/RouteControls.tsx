@@ -0,0 +1,164 @@
+import { useGameStore } from '../store/gameStore';
+import { HEADWAY_CONFIG, TRAIN_CONFIG } from '../config/gameConfig';
+import { getLineTravelTime, kmhToMs } from '../utils/trainKinematics';
+import { getServicePatternName, getServicePatterns } from '../utils/servicePatterns';
+import { getMeasuredHeadway, HEADWAY_CONTROL_LABELS } from '../utils/headway';
+import type { HeadwayControl, Inventory, Route, Train } from '../types';
+
+interface RouteControlsProps {
+  routes: Route[];
+  trains: Train[];
+  inventory: Inventory;
+  mobile?: boolean;
+}
+
+// Per-line rolling stock controls: trains on the line (per service pattern once it branches)
+// carriages across its trains, how many of its trains run express once it skips stations, and how
+// the line keeps its trains spaced
+export default function RouteControls({ routes, trains, inventory, mobile = false }: RouteControlsProps) {
+  const {
+    stations, lineHeadways, trainMovementNetwork, playback,
+    addTrain, removeTrain, addCarriage, removeCarriage, setTrainExpress, setHeadwayControl, setHeadwayTarget
+  } = useGameStore();
+
+  if (routes.length === 0) return null;
+
+  return (
+    <div className={`routes-section${mobile ? ' mobile' : ''}`}>
+      <h3 className="section-title">Lines</h3>
+      <div className="routes-list">
+        {routes.map((route, index) => {
+          const lineTrains = trains.filter(train => train.routeId === route.id);
+          const carriages = lineTrains.reduce((total, train) => total + train.carriages, 0);
+          const capacity = lineTrains.reduce((total, train) => total + train.capacity, 0);
+          // Carriages go to the shortest train and come off the longest, keeping trains similar
+          const shortestTrain = [...lineTrains].sort((a, b) => a.carriages - b.carriages)[0];
+          const longestTrain = [...lineTrains].sort((a, b) => b.carriages - a.carriages)[0];
+          const expressTrains = lineTrains.filter(train => train.isExpress);
+          const stoppingTrains = lineTrains.filter(train => !train.isExpress);
+          const segmentLengths = trainMovementNetwork?.routes.get(route.id)?.segmentLengths ?? [];
+          const travelTime = getLineTravelTime(segmentLengths, kmhToMs(TRAIN_CONFIG.defaultSpeedKmh));
+          const measuredHeadway = getMeasuredHeadway(lineHeadways[route.id]);
+
+          return (
+            <div key={route.id} className="route-item" data-testid="route-item">
+              <div className="route-item-header">
+                <div className="route-dot" style={{ backgroundColor: route.color }}></div>
+                <span className="route-name">Line {index + 1}</span>
+                <span className="route-capacity">{capacity} seats</span>
+                {travelTime > 0 && (
+                  <span className="route-travel-time" title="End to end, including stops" data-testid="route-travel-time">
+                    {(travelTime / 1000).toFixed(1)}s
+                  </span>
+                )}
+              </div>
+              <div className="route-stock-controls">
+                <span className="route-stock-label">Trains</span>
+                <button
+                  onClick={() => removeTrain(lineTrains[lineTrains.length - 1].id)}
+                  disabled={lineTrains.length <= 1 || playback !== null}
+                  aria-label="Remove train"
+                >−</button>
+                <span className="route-stock-count" data-testid="route-train-count">{lineTrains.length}</span>
+                <button
+                  onClick={() => addTrain(route.id)}
+                  disabled={lineTrains.length >= TRAIN_CONFIG.maxTrainsPerRoute || inventory.locomotives === 0 || playback !== null}
+                  aria-label="Add train"
+                >+</button>
+                <span className="route-stock-label">Carriages</span>
+                <button
+                  onClick={() => longestTrain && removeCarriage(longestTrain.id)}
+                  disabled={carriages === 0 || playback !== null}
+                  aria-label="Remove carriage"
+                >−</button>
+                <span className="route-stock-count" data-testid="route-carriage-count">{carriages}</span>
+                <button
+                  onClick={() => shortestTrain && addCarriage(shortestTrain.id)}
+                  disabled={!shortestTrain || shortestTrain.carriages >= TRAIN_CONFIG.maxCarriages || inventory.carriages === 0 || playback !== null}
+                  aria-label="Add carriage"
+                >+</button>
+              </div>
+              <div className="route-stock-controls">
+                <span className="route-stock-label">Spacing</span>
+                <select
+                  className="route-headway-select"
+                  value={route.headwayControl}
+                  onChange={(e) => setHeadwayControl(route.id, e.target.value as HeadwayControl)}
+                  disabled={playback !== null}
+                  data-testid="route-headway-control"
+                >
+                  {(Object.keys(HEADWAY_CONTROL_LABELS) as HeadwayControl[]).map(control => (
+                    <option key={control} value={control}>{HEADWAY_CONTROL_LABELS[control]}</option>
+                  ))}
+                </select>
+                {route.headwayControl !== 'off' && (
+                  <>
+                    <button
+                      onClick={() => setHeadwayTarget(route.id, route.headwayTarget - HEADWAY_CONFIG.targetStep)}
+                      disabled={route.headwayTarget <= HEADWAY_CONFIG.minTarget || playback !== null}
+                      aria-label="Shorten target headway"
+                    >−</button>
+                    <span className="route-stock-count" title="Target interval between trains" data-testid="route-headway-target">
+                      {route.headwayTarget / 1000}s
+                    </span>
+                    <button
+                      onClick={() => setHeadwayTarget(route.id, route.headwayTarget + HEADWAY_CONFIG.targetStep)}
+                      disabled={route.headwayTarget >= HEADWAY_CONFIG.maxTarget || playback !== null}
+                      aria-label="Lengthen target headway"
+                    >+</button>
+                  </>
+                )}
+                <span className="route-travel-time" title="Measured interval between trains" data-testid="route-measured-headway">
+                  {measuredHeadway === null ? '–' : `every ${(measuredHeadway / 1000).toFixed(1)}s`}
+                </span>
+              </div>
+              {route.expressSkips.length > 0 && (
+                <div className="route-stock-controls">
+                  <span className="route-stock-label" title={`Runs through ${route.expressSkips.length} station${route.expressSkips.length === 1 ? '' : 's'}`}>
+                    Express
+                  </span>
+                  <button
+                    onClick={() => setTrainExpress(expressTrains[expressTrains.length - 1].id, false)}
+                    disabled={expressTrains.length === 0 || playback !== null}
+                    aria-label="Make a train stop everywhere"
+                  >−</button>
+                  <span className="route-stock-count" data-testid="route-express-count">{expressTrains.length}</span>
+                  <button
+                    onClick={() => setTrainExpress(stoppingTrains[stoppingTrains.length - 1].id, true)}
+                    disabled={stoppingTrains.length === 0 || playback !== null}
+                    aria-label="Run a train express"
+                  >+</button>
+                </div>
+              )}
+              {route.branches.length > 0 && (
+                <div className="route-patterns">
+                  {getServicePatterns(route).map(pattern => {
+                    const patternTrains = lineTrains.filter(train => train.branchId === pattern.branchId);
+                    return (
+                      <div key={pattern.key} className="route-stock-controls" data-testid="route-pattern">
+                        <span className="route-pattern-name" title="Service pattern">
+                          {getServicePatternName(pattern, stations)}
+                        </span>
+                        <button
+                          onClick={() => removeTrain(patternTrains[patternTrains.length - 1].id)}
+                          disabled={patternTrains.length === 0 || lineTrains.length <= 1 || playback !== null}
+                          aria-label="Remove train from service"
+                        >−</button>
+                        <span className="route-stock-count" data-testid="route-pattern-train-count">{patternTrains.length}</span>
+                        <button
+                          onClick={() => addTrain(route.id, pattern.branchId)}
+                          disabled={lineTrains.length >= TRAIN_CONFIG.maxTrainsPerRoute || inventory.locomotives === 0 || playback !== null}
+                          aria-label="Add train to service"
+                        >+</button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
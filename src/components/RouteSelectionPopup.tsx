@@ -5,7 +5,9 @@ interface RouteSelectionPopupProps {
   isVisible: boolean;
   routes: Route[];
   position: { x: number; y: number };
+  isBranching?: boolean; // Choosing a line adds a branch to it rather than extending it
   onRouteSelect: (routeId: string) => void;
+  onCreateNew?: () => void;
   onCancel: () => void;
 }
 
@@ -13,7 +15,9 @@ const RouteSelectionPopup: React.FC<RouteSelectionPopupProps> = ({
   isVisible,
   routes,
   position,
+  isBranching = false,
   onRouteSelect,
+  onCreateNew,
   onCancel,
 }) => {
   if (!isVisible || routes.length === 0) {
@@ -68,10 +72,12 @@ const RouteSelectionPopup: React.FC<RouteSelectionPopupProps> = ({
               textShadow: "none",
             }}
           >
-            Select Route to Extend
+            {isBranching ? "Branch a Line" : "Select Route to Extend"}
           </h3>
           <p style={{ margin: "8px 0 0 0", fontSize: "12px", opacity: "0.9" }}>
-            Choose which route to extend from this station
+            {isBranching
+              ? "Choose a line to branch from this station, or start a new line"
+              : "Choose which route to extend from this station"}
           </p>
         </div>
 
@@ -157,8 +163,30 @@ const RouteSelectionPopup: React.FC<RouteSelectionPopupProps> = ({
               marginTop: "16px",
               paddingTop: "12px",
               borderTop: "1px solid rgba(0, 0, 0, 0.08)",
+              display: "flex",
+              flexDirection: "column",
+              gap: "8px",
             }}
           >
+            {isBranching && onCreateNew && (
+              <button
+                onClick={onCreateNew}
+                data-testid="new-line-instead"
+                style={{
+                  width: "100%",
+                  padding: "10px",
+                  borderRadius: "6px",
+                  border: "1px solid rgba(0, 0, 0, 0.08)",
+                  backgroundColor: "white",
+                  color: "#333",
+                  cursor: "pointer",
+                  fontSize: "13px",
+                  fontWeight: "600",
+                }}
+              >
+                New Line
+              </button>
+            )}
             <button
               onClick={onCancel}
               style={{
@@ -0,0 +1,33 @@
+import type { SpecialEvent, Station } from '../types';
+import { VENUE_ICONS, getEventName, isEventRunning } from '../utils/specialEvents';
+import { getStationName } from '../utils/servicePatterns';
+import { WEEKDAY_NAMES, formatClockTime, getGameClock } from '../utils/clock';
+
+interface SpecialEventsListProps {
+  events: SpecialEvent[];
+  stations: Station[];
+  elapsedTime: number;
+}
+
+// Announced events at venues, soonest first - running events are highlighted
+export default function SpecialEventsList({ events, stations, elapsedTime }: SpecialEventsListProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <div className="special-events" data-testid="special-events">
+      {[...events].sort((a, b) => a.startTime - b.startTime).map(event => {
+        const clock = getGameClock(event.startTime);
+        const isRunning = isEventRunning(event, elapsedTime);
+        return (
+          <div key={event.id} className={`special-event${isRunning ? ' running' : ''}`} data-testid="special-event">
+            <span className="special-event-icon">{VENUE_ICONS[event.venue]}</span>
+            <span className="special-event-name">{getEventName(event)} at {getStationName(stations, event.stationId)}</span>
+            <span className="special-event-time">
+              {isRunning ? 'Now' : `${WEEKDAY_NAMES[clock.dayOfWeek]} ${formatClockTime(clock)}`} · {event.attendance} passengers
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import maplibregl from 'maplibre-gl';
 import type { LngLat, Route } from '../types';
 import { getDistanceInMeters } from '../utils/coordinates';
 import { createMetroRouteCoordinates } from '../utils/routeNetworkCalculator';
+import { isCircularRoute, isClosingLoop } from '../utils/routeEditing';
+import { routeServesStation } from '../utils/servicePatterns';
 
 // Extend the Window interface to include StationDragHandlerDragging
 declare global {
@@ -13,13 +15,19 @@ declare global {
 }
 
 window.StationDragHandlerDragging = false;
+
+// Dropping a line end at least this far from any station pulls the whole line off the map
+const ROUTE_DELETE_DRAG_DISTANCE = 400; // meters
+
 interface DragState {
   isDragging: boolean;
   startStation: string | null;
   currentPosition: LngLat | null;
   isValidTarget: boolean;
   targetStation: string | null;
-  fromRouteEnd?: { routeId: string; isEnd: boolean }; // Track if dragging from route end
+  fromRouteEnd?: { routeId: string; isEnd: boolean; branchId?: string }; // Track if dragging from route (or branch) end
+  fromSegment?: { routeId: string; index: number }; // Track if dragging a line segment (stations index and index + 1)
+  isDeletingRoute?: boolean; // Releasing now would delete the dragged line
 }
 
 interface StationDragHandlerProps {
@@ -27,6 +35,12 @@ interface StationDragHandlerProps {
   routes: Route[];
   onCreateRoute: (startStationId: string, endStationId: string) => void;
   onExtendRoute: (routeId: string, stationId: string, atEnd: boolean) => void;
+  onRemoveRoute: (routeId: string) => void;
+  onRemoveStationFromRoute: (routeId: string, stationId: string) => void;
+  onInsertStation: (routeId: string, stationId: string, index: number) => void;
+  onExtendBranch: (routeId: string, branchId: string, stationId: string) => void;
+  onTrimBranch: (routeId: string, branchId: string) => void;
+  onRemoveBranch: (routeId: string, branchId: string) => void;
   onMultiRouteConnection?: (
     startStationId: string, 
     endStationId: string, 
@@ -36,9 +50,16 @@ interface StationDragHandlerProps {
     routeId?: string,
     atEnd?: boolean
   ) => void;
+  // Offered when a new connection starts between the ends of existing lines, which could branch instead
+  onBranchConnection?: (
+    startStationId: string,
+    endStationId: string,
+    branchableRoutes: Route[],
+    screenPosition: { x: number; y: number }
+  ) => void;
 }
 
-function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, onMultiRouteConnection }: StationDragHandlerProps) {
+function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, onRemoveRoute, onRemoveStationFromRoute, onInsertStation, onExtendBranch, onTrimBranch, onRemoveBranch, onMultiRouteConnection, onBranchConnection }: StationDragHandlerProps) {
   const mapHook = useMap();
   const [dragState, setDragState] = useState<DragState>({
     isDragging: false,
@@ -86,7 +107,7 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
           currentPosition: pointLngLat,
           isValidTarget: false,
           targetStation: null,
-          fromRouteEnd: { routeId: routeEnd.routeId, isEnd: routeEnd.isEnd }
+          fromRouteEnd: { routeId: routeEnd.routeId, isEnd: routeEnd.isEnd, branchId: routeEnd.branchId }
         });
         event.preventDefault();
         event.stopPropagation();
@@ -110,6 +131,24 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
         });
         event.preventDefault();
         event.stopPropagation();
+        return;
+      }
+
+      // Finally, check if grabbing a line between two stations to re-route it
+      const segment = findClosestRouteSegment(pointLngLat, routes, stations, 80);
+      if (segment) {
+        map.dragPan.disable();
+
+        setDragState({
+          isDragging: true,
+          startStation: segment.startStationId,
+          currentPosition: pointLngLat,
+          isValidTarget: false,
+          targetStation: null,
+          fromSegment: { routeId: segment.routeId, index: segment.index }
+        });
+        event.preventDefault();
+        event.stopPropagation();
       }
     };
 
@@ -142,6 +181,19 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
       if (dragDistance <= 150) {
         window.StationDragHandlerDragging = true;
       }
+      if (currentDragState.fromSegment) {
+        // Dragged lines bend freely towards the station they'll be re-routed through
+        const segmentRoute = routes.find(route => route.id === currentDragState.fromSegment!.routeId);
+        const isOwnStation = !!potentialTarget && !!segmentRoute &&
+          segmentRoute.stations.slice(currentDragState.fromSegment.index, currentDragState.fromSegment.index + 2).includes(potentialTarget.id);
+        setDragState(prev => ({
+          ...prev,
+          currentPosition: potentialTarget && !isOwnStation ? potentialTarget.position : pointLngLat,
+          isValidTarget: !!potentialTarget && !isOwnStation,
+          targetStation: potentialTarget && !isOwnStation ? potentialTarget.id : null
+        }));
+        return;
+      }
       if (potentialTarget && potentialTarget.id !== currentDragState.startStation) {
         // If we have a potential target, snap the line to the best 45-degree angle to reach it
         const snappedEnd = snapTo45DegreeConnection(startStation.position, potentialTarget.position);
@@ -159,11 +211,24 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
         constrainedEnd = { lng: constrained.lng, lat: constrained.lat };
       }
 
+      // A line with branches can't be closed into a loop, so its far terminus isn't a target
+      const draggedRoute = currentDragState.fromRouteEnd && !currentDragState.fromRouteEnd.branchId
+        ? routes.find(route => route.id === currentDragState.fromRouteEnd!.routeId)
+        : undefined;
+      if (targetStation && draggedRoute && !canExtendRouteOnto(draggedRoute, currentDragState.startStation!, targetStation.id)) {
+        targetStation = null;
+        isValidTarget = false;
+      }
+
+      // A line end pulled far from every station will be deleted on release
+      const isDeletingRoute = !!currentDragState.fromRouteEnd && !potentialTarget && dragDistance >= ROUTE_DELETE_DRAG_DISTANCE;
+
       setDragState(prev => ({
         ...prev,
         currentPosition: constrainedEnd, // Use constrained position for preview
         isValidTarget,
-        targetStation: targetStation?.id || null
+        targetStation: targetStation?.id || null,
+        isDeletingRoute
       }));
     };
 
@@ -201,21 +266,73 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
       return false;
     };
 
+    // Handle dropping a grabbed line segment onto a station
+    const handleSegmentDrop = (routeId: string, index: number, targetStationId: string) => {
+      const route = routes.find(r => r.id === routeId);
+      if (!route) return;
+
+      if (!route.stations.includes(targetStationId)) {
+        // New station - insert it between the segment's two stations
+        onInsertStation(routeId, targetStationId, index + 1);
+      } else if (route.stations[index + 2] === targetStationId) {
+        // Dragged past the segment's second station onto the next one - skip that station
+        onRemoveStationFromRoute(routeId, route.stations[index + 1]);
+      } else if (route.stations[index - 1] === targetStationId) {
+        // Dragged past the segment's first station onto the previous one - skip that station
+        onRemoveStationFromRoute(routeId, route.stations[index]);
+      }
+    };
+
     const handleEnd = () => {
       const currentDragState = dragStateRef.current;
-      if (currentDragState.isDragging && currentDragState.isValidTarget && currentDragState.targetStation) {
-        if (currentDragState.fromRouteEnd) {
+      const draggedBranchId = currentDragState.fromRouteEnd?.branchId;
+      if (currentDragState.isDragging && currentDragState.fromRouteEnd && currentDragState.isDeletingRoute) {
+        // Line (or branch) end pulled off into empty space - delete the line or just the branch
+        if (draggedBranchId) {
+          onRemoveBranch(currentDragState.fromRouteEnd.routeId, draggedBranchId);
+        } else {
+          onRemoveRoute(currentDragState.fromRouteEnd.routeId);
+        }
+      } else if (currentDragState.isDragging && currentDragState.isValidTarget && currentDragState.targetStation) {
+        const endRoute = currentDragState.fromRouteEnd
+          ? routes.find(route => route.id === currentDragState.fromRouteEnd!.routeId)
+          : undefined;
+        const endBranch = draggedBranchId ? endRoute?.branches.find(branch => branch.id === draggedBranchId) : undefined;
+        let neighbourStation = endRoute
+          ? endRoute.stations[currentDragState.fromRouteEnd!.isEnd ? endRoute.stations.length - 2 : 1]
+          : undefined;
+        if (endRoute && endBranch) {
+          // A branch's first station follows on from its junction
+          neighbourStation = endBranch.stations.length > 1
+            ? endBranch.stations[endBranch.stations.length - 2]
+            : endRoute.stations[endBranch.junctionIndex];
+        }
+
+        if (currentDragState.fromSegment) {
+          handleSegmentDrop(currentDragState.fromSegment.routeId, currentDragState.fromSegment.index, currentDragState.targetStation);
+        } else if (currentDragState.fromRouteEnd && draggedBranchId) {
+          if (currentDragState.targetStation === neighbourStation) {
+            // Branch end dragged back along the branch - shorten it
+            onTrimBranch(currentDragState.fromRouteEnd.routeId, draggedBranchId);
+          } else {
+            onExtendBranch(currentDragState.fromRouteEnd.routeId, draggedBranchId, currentDragState.targetStation);
+          }
+        } else if (currentDragState.fromRouteEnd && currentDragState.targetStation === neighbourStation) {
+          // Line end dragged back onto the next station along the line - shorten the line
+          onRemoveStationFromRoute(currentDragState.fromRouteEnd.routeId, currentDragState.startStation!);
+        } else if (currentDragState.fromRouteEnd) {
           // Extending a route - check if start station is a terminal for multiple routes
           const startStationRoutes = routes.filter(route => {
             const stations = route.stations;
-            return stations.length > 0 && 
+            return stations.length > 0 && !isCircularRoute(stations) &&
                    (stations[0] === currentDragState.startStation || 
                     stations[stations.length - 1] === currentDragState.startStation);
           });
 
-          // Filter out routes that already connect to the target station
+          // Filter out routes that already connect to the target station, or can't be extended onto it
           const viableRoutes = startStationRoutes.filter(route => 
-            !routeConnectsStations(route, currentDragState.startStation!, currentDragState.targetStation!)
+            !routeConnectsStations(route, currentDragState.startStation!, currentDragState.targetStation!) &&
+            canExtendRouteOnto(route, currentDragState.startStation!, currentDragState.targetStation!)
           );
 
           if (viableRoutes.length > 1 && onMultiRouteConnection) {
@@ -247,17 +364,33 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
           // Creating new route - check if start station is a terminal for multiple routes
           const startStationRoutes = routes.filter(route => {
             const stations = route.stations;
-            return stations.length > 0 && 
+            return stations.length > 0 && !isCircularRoute(stations) &&
                    (stations[0] === currentDragState.startStation || 
                     stations[stations.length - 1] === currentDragState.startStation);
           });
 
-          // Filter out routes that already connect to the target station
+          // Filter out routes that already connect to the target station, or can't be extended onto it
           const viableRoutes = startStationRoutes.filter(route => 
-            !routeConnectsStations(route, currentDragState.startStation!, currentDragState.targetStation!)
+            !routeConnectsStations(route, currentDragState.startStation!, currentDragState.targetStation!) &&
+            canExtendRouteOnto(route, currentDragState.startStation!, currentDragState.targetStation!)
           );
 
-          if (viableRoutes.length > 1 && onMultiRouteConnection) {
+          // Lines passing through the start station could branch off towards the target instead
+          const branchableRoutes = routes.filter(route => {
+            const index = route.stations.indexOf(currentDragState.startStation!);
+            return !isCircularRoute(route.stations) && index > 0 && index < route.stations.length - 1 &&
+                   !routeServesStation(route, currentDragState.targetStation!);
+          });
+
+          if (viableRoutes.length === 0 && branchableRoutes.length > 0 && onBranchConnection) {
+            const rect = canvas.getBoundingClientRect();
+            onBranchConnection(
+              currentDragState.startStation!,
+              currentDragState.targetStation,
+              branchableRoutes,
+              { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+            );
+          } else if (viableRoutes.length > 1 && onMultiRouteConnection) {
             // Multiple viable routes - show selection popup to extend instead of creating new
             const rect = canvas.getBoundingClientRect();
             const centerX = rect.left + rect.width / 2;
@@ -296,7 +429,9 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
         currentPosition: null,
         isValidTarget: false,
         targetStation: null,
-        fromRouteEnd: undefined
+        fromRouteEnd: undefined,
+        fromSegment: undefined,
+        isDeletingRoute: false
       });
     };
 
@@ -350,7 +485,7 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
       document.removeEventListener('mouseup', handleMouseUp);
       document.removeEventListener('touchend', handleTouchEnd);
     };
-  }, [mapHook?.map, stations, routes, onCreateRoute, onExtendRoute, onMultiRouteConnection]);
+  }, [mapHook?.map, stations, routes, onCreateRoute, onExtendRoute, onRemoveRoute, onRemoveStationFromRoute, onInsertStation, onExtendBranch, onTrimBranch, onRemoveBranch, onMultiRouteConnection, onBranchConnection]);
 
   // Render drag preview - separate effect with minimal dependencies
   useEffect(() => {
@@ -383,7 +518,15 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
       
       // If we have a target station, create the corner route using the same function as actual routes
       const targetStation = dragState.targetStation ? stations.find(s => s.id === dragState.targetStation) : null;
-      if (targetStation) {
+      const segmentRoute = dragState.fromSegment ? routes.find(route => route.id === dragState.fromSegment!.routeId) : null;
+      const segmentEndStation = segmentRoute ? stations.find(s => s.id === segmentRoute.stations[dragState.fromSegment!.index + 1]) : null;
+      if (segmentEndStation) {
+        // Dragged segment - show the line bent through the cursor or target station
+        const bendPosition = targetStation ? targetStation.position : constrainedEnd;
+        coordinates = targetStation
+          ? [...createMetroRouteCoordinates(startStation.position, bendPosition), ...createMetroRouteCoordinates(bendPosition, segmentEndStation.position)]
+          : [...coordinates, [bendPosition.lng, bendPosition.lat], [segmentEndStation.position.lng, segmentEndStation.position.lat]];
+      } else if (targetStation) {
         const cornerRoute = createMetroRouteCoordinates(startStation.position, targetStation.position);
         coordinates = cornerRoute;
       } else {
@@ -413,9 +556,12 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
         });
       }
 
+      // Green for a valid connection, red when releasing would delete the line
+      const previewColor = dragState.isDeletingRoute ? '#e74c3c' : dragState.isValidTarget ? '#00ff00' : '#888888';
+
       // Update or create the layer
       if (map.getLayer('drag-preview')) {
-        map.setPaintProperty('drag-preview', 'line-color', dragState.isValidTarget ? '#00ff00' : '#888888');
+        map.setPaintProperty('drag-preview', 'line-color', previewColor);
       } else {
         map.addLayer({
           id: 'drag-preview',
@@ -426,7 +572,7 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
             'line-cap': 'round'
           },
           paint: {
-            'line-color': dragState.isValidTarget ? '#00ff00' : '#888888',
+            'line-color': previewColor,
             'line-width': 4,
             'line-opacity': 0.9
           }
@@ -434,11 +580,18 @@ function StationDragHandler({ stations, routes, onCreateRoute, onExtendRoute, on
       }
     }
 
-  }, [mapHook?.map, dragState.isDragging, dragState.startStation, dragState.currentPosition, dragState.isValidTarget, dragState.targetStation, stations]);
+  }, [mapHook?.map, dragState.isDragging, dragState.startStation, dragState.currentPosition, dragState.isValidTarget, dragState.targetStation, dragState.fromSegment, dragState.isDeletingRoute, stations, routes]);
 
   return null;
 }
 
+// Whether a line can be extended from its end at startStationId onto targetStationId - closing a
+// line with branches into a loop isn't allowed
+function canExtendRouteOnto(route: Route, startStationId: string, targetStationId: string): boolean {
+  const isAtEnd = route.stations[route.stations.length - 1] === startStationId;
+  return route.branches.length === 0 || !isClosingLoop(route, targetStationId, isAtEnd);
+}
+
 // Helper function to find closest station to a point
 function findClosestStation(
   point: LngLat, 
@@ -464,13 +617,28 @@ function findClosestRouteEnd(
   routes: Route[],
   stations: Array<{ id: string; position: LngLat; color: string }>,
   maxDistanceMeters: number
-): { routeId: string; stationId: string; isEnd: boolean } | null {
-  let closestEnd = null;
+): { routeId: string; stationId: string; isEnd: boolean; branchId?: string } | null {
+  let closestEnd: { routeId: string; stationId: string; isEnd: boolean; branchId?: string } | null = null;
   let minDistance = Infinity;
 
   for (const route of routes) {
     if (route.stations.length < 2) continue;
 
+    // Check the far end of each branch
+    for (const branch of route.branches) {
+      const branchEndId = branch.stations[branch.stations.length - 1];
+      const branchEnd = stations.find(s => s.id === branchEndId);
+      if (!branchEnd) continue;
+      const distance = getDistanceInMeters(point, branchEnd.position);
+      if (distance < minDistance && distance <= maxDistanceMeters) {
+        minDistance = distance;
+        closestEnd = { routeId: route.id, stationId: branchEndId, isEnd: true, branchId: branch.id };
+      }
+    }
+
+    // A loop's shared station counts as its far end, so dragging it back along the last segment opens the loop
+    const isLoop = isCircularRoute(route.stations);
+
     // Check first station (start of route)
     const firstStationId = route.stations[0];
     const firstStation = stations.find(s => s.id === firstStationId);
@@ -478,7 +646,7 @@ function findClosestRouteEnd(
       const distance = getDistanceInMeters(point, firstStation.position);
       if (distance < minDistance && distance <= maxDistanceMeters) {
         minDistance = distance;
-        closestEnd = { routeId: route.id, stationId: firstStationId, isEnd: false };
+        closestEnd = { routeId: route.id, stationId: firstStationId, isEnd: isLoop };
       }
     }
 
@@ -497,6 +665,53 @@ function findClosestRouteEnd(
   return closestEnd;
 }
 
+// Helper function to find the closest line segment (between two consecutive stations) to a point
+function findClosestRouteSegment(
+  point: LngLat,
+  routes: Route[],
+  stations: Array<{ id: string; position: LngLat; color: string }>,
+  maxDistanceMeters: number
+): { routeId: string; index: number; startStationId: string } | null {
+  let closestSegment = null;
+  let minDistance = Infinity;
+
+  for (const route of routes) {
+    for (let i = 0; i < route.stations.length - 1; i++) {
+      const startStation = stations.find(s => s.id === route.stations[i]);
+      const endStation = stations.find(s => s.id === route.stations[i + 1]);
+      if (!startStation || !endStation) continue;
+
+      // Measure against the drawn metro-style path, not the straight line between stations
+      const path = createMetroRouteCoordinates(startStation.position, endStation.position);
+      for (let j = 0; j < path.length - 1; j++) {
+        const closestPoint = closestPointOnSegment(point, { lng: path[j][0], lat: path[j][1] }, { lng: path[j + 1][0], lat: path[j + 1][1] });
+        const distance = getDistanceInMeters(point, closestPoint);
+        if (distance < minDistance && distance <= maxDistanceMeters) {
+          minDistance = distance;
+          closestSegment = { routeId: route.id, index: i, startStationId: startStation.id };
+        }
+      }
+    }
+  }
+
+  return closestSegment;
+}
+
+// Helper function to find the closest point to p on the segment a-b (flat approximation, fine at city scale)
+function closestPointOnSegment(p: LngLat, a: LngLat, b: LngLat): LngLat {
+  const lngScale = Math.cos(p.lat * Math.PI / 180);
+  const dx = (b.lng - a.lng) * lngScale;
+  const dy = b.lat - a.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return a;
+
+  const t = Math.max(0, Math.min(1, (((p.lng - a.lng) * lngScale) * dx + (p.lat - a.lat) * dy) / lengthSquared));
+  return {
+    lng: a.lng + (b.lng - a.lng) * t,
+    lat: a.lat + (b.lat - a.lat) * t
+  };
+}
+
 // Helper function to constrain a line to 45-degree increments
 function constrainTo45Degrees(start: LngLat, end: LngLat): LngLat {
   const dx = end.lng - start.lng;
@@ -1,7 +1,12 @@
 import { useGameStore } from '../store/gameStore';
+import { STATION_TYPE_SYMBOLS, STATION_TYPE_LABELS } from '../utils/stationTypes';
+import { RESOURCE_ICONS } from '../utils/resources';
+import { canExpressSkipStation, getLineServices, getServicePatternName, routeServesStation } from '../utils/servicePatterns';
+import { VENUE_ICONS, VENUE_LABELS } from '../utils/specialEvents';
+import type { StationType } from '../types';
 
 export default function StationStats() {
-  const { selectedStationId, stations, routes, selectStation } = useGameStore();
+  const { selectedStationId, stations, routes, inventory, playback, selectStation, buildInterchange, toggleExpressSkip } = useGameStore();
 
   if (!selectedStationId) {
     return null; // Don't render anything when no station is selected
@@ -14,7 +19,20 @@ export default function StationStats() {
   }
 
   // Find routes connected to this station
-  const connectedRoutes = routes.filter(route => route.stations.includes(selectedStationId));
+  const connectedRoutes = routes.filter(route => routeServesStation(route, selectedStationId));
+  // Services that stop here, and the lines whose express trains could run straight through
+  const callingServices = connectedRoutes.flatMap(route =>
+    getLineServices(route)
+      .filter(service => service.callingStations.includes(selectedStationId))
+      .map(service => ({ route, service }))
+  );
+  const skippableRoutes = connectedRoutes.filter(route => canExpressSkipStation(route, selectedStationId));
+
+  // Count waiting passengers by the station type they want to reach
+  const demandByType = selectedStation.passengers.reduce((counts, passenger) => {
+    counts.set(passenger.destinationType, (counts.get(passenger.destinationType) || 0) + 1);
+    return counts;
+  }, new Map<StationType, number>());
 
   // Convert building density to human readable form
   const getDensityDescription = (density: number | undefined): string => {
@@ -51,13 +69,45 @@ export default function StationStats() {
       </div>
       
       <div className="selected-station-content">
+        <div className="station-info-row">
+          <span className="station-name">Type</span>
+          <div className="density-info">
+            <span className="station-type-symbol">{STATION_TYPE_SYMBOLS[selectedStation.type]}</span>
+            <span className="density-text">{STATION_TYPE_LABELS[selectedStation.type]}</span>
+          </div>
+        </div>
+
+        {selectedStation.venue && (
+          <div className="station-info-row">
+            <span className="station-name">Venue</span>
+            <div className="density-info">
+              <span className="station-type-symbol">{VENUE_ICONS[selectedStation.venue]}</span>
+              <span className="density-text" data-testid="station-venue">{VENUE_LABELS[selectedStation.venue]}</span>
+            </div>
+          </div>
+        )}
+
         <div className="station-info-row">
           <span className="station-name">Passengers</span>
-          {selectedStation.passengerCount > 0 && (
-            <div className="passenger-badge">{selectedStation.passengerCount}</div>
-          )}
+          <div className="passenger-demand">
+            {Array.from(demandByType.entries()).map(([type, count]) => (
+              <span key={type} className="passenger-demand-item" title={`${count} heading to a ${STATION_TYPE_LABELS[type].toLowerCase()} station`}>
+                {STATION_TYPE_SYMBOLS[type]} {count}
+              </span>
+            ))}
+            {selectedStation.passengers.length > 0 && (
+              <div className="passenger-badge">{selectedStation.passengers.length}</div>
+            )}
+          </div>
         </div>
         
+        <div className="station-info-row">
+          <span className="station-name">Capacity</span>
+          <span className="density-text" data-testid="station-capacity">
+            {selectedStation.passengers.length} / {selectedStation.capacity}
+          </span>
+        </div>
+
         <div className="station-info-row">
           <span className="station-name">Routes</span>
           <div className="route-indicators">
@@ -71,6 +121,45 @@ export default function StationStats() {
           </div>
         </div>
         
+        {callingServices.length > 0 && (
+          <div className="station-info-row">
+            <span className="station-name">Services</span>
+            <div className="station-services">
+              {callingServices.map(({ route, service }) => (
+                <span key={service.key} className="station-service" data-testid="station-service">
+                  <span className="route-dot" style={{ backgroundColor: route.color }}></span>
+                  {getServicePatternName(service, stations)}
+                  {service.isExpress && <span className="express-label">Express</span>}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {skippableRoutes.length > 0 && (
+          <div className="station-info-row">
+            <span className="station-name">Express</span>
+            <div className="route-indicators">
+              {skippableRoutes.map(route => {
+                const isSkipped = route.expressSkips.includes(selectedStationId);
+                return (
+                  <button
+                    key={route.id}
+                    className={`express-skip-btn${isSkipped ? ' skipped' : ''}`}
+                    style={{ borderColor: route.color }}
+                    onClick={() => toggleExpressSkip(route.id, selectedStationId)}
+                    disabled={playback !== null}
+                    title={isSkipped ? 'Express trains run through - click to make them stop' : 'Express trains stop - click to run them through'}
+                    data-testid="express-skip-toggle"
+                  >
+                    {isSkipped ? 'Skips' : 'Stops'}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <div className="station-info-row">
           <span className="station-name">Population</span>
           <div className="density-info">
@@ -78,6 +167,22 @@ export default function StationStats() {
             <span className="density-text">{getDensityDescription(selectedStation.buildingDensity)}</span>
           </div>
         </div>
+
+        <div className="station-info-row">
+          <span className="station-name">Interchange</span>
+          {selectedStation.isInterchange ? (
+            <span className="density-text">{RESOURCE_ICONS.interchanges} Built</span>
+          ) : (
+            <button
+              className="interchange-btn"
+              onClick={() => buildInterchange(selectedStation.id)}
+              disabled={inventory.interchanges === 0 || playback !== null}
+              data-testid="build-interchange"
+            >
+              Build ({inventory.interchanges} left)
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
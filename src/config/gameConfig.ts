@@ -1,4 +1,4 @@
-import type { LngLat } from '../types';
+import type { Difficulty, DisruptionType, EventVenueType, GameMode, GameModeRules, Inventory, LngLat, OverloadSettings, RewardResource, StationType } from '../types';
 import { getCurrentCity, getCityCenter, getCityBounds } from '../utils/cityStorage';
 
 // Get current city for dynamic configuration
@@ -23,19 +23,71 @@ export const LONDON_BOUNDS = {
 // Game settings
 export const GAME_CONFIG = {
   stationSpawnProbability: 0.0015, // Per game loop cycle (100ms) - half the rate
-  passengerSpawnProbability: 0.045, // Balanced spawn rate for optimal gameplay
   maxStations: 18,
   initialZoom: 13,
   maxZoom: 16,
   gameLoopInterval: 100, // milliseconds
   minStationSpawnDelay: 15000, // Minimum time (ms) between station spawns - prevents too frequent spawning
   maxStationSpawnDelay: 20000, // Maximum time (ms) between station spawns - guarantees station every 20s
+  autosaveInterval: 10000, // Time (ms) between autosaves to localStorage
+  refusalNoticeDuration: 4000, // Time (ms) a refused change's reason stays on screen
   // Station distance constraints
   minStationDistance: 500, // Minimum distance between stations in meters
   maxInitialStationDistance: 1500, // Maximum distance for initial stations in meters
   maxRegularStationDistance: 1500, // Maximum distance for regular stations in meters
 } as const;
 
+// Gravity demand model - trips between stations, see utils/demandModel.ts
+export const DEMAND_CONFIG = {
+  tripsPerStation: 0.045, // Mean new passengers per station per game loop cycle, before mode and time of day
+  minimumMass: 0.3, // Share of a station's pull that doesn't depend on its building density
+  distanceScale: 1500, // Distance (m) at which trips between two stations fall to half
+  distanceDecay: 2, // How sharply trips fall off with distance beyond distanceScale
+} as const;
+
+// Points for each delivered passenger, broken down by what they reward - see utils/scoring.ts
+export const SCORE_CONFIG = {
+  pointsPerDelivery: 10, // Every passenger who arrives
+  pointsPerKm: 5, // Straight-line distance from where the passenger started to where they arrived
+  efficiencyPointsPerKm: 5, // Earned in full for journeys at the reference speed, pro rata for slower ones
+  referenceSpeed: 100, // Straight-line metres covered per simulated second, waiting included
+  transferAllowance: 2, // Journeys with fewer transfers than this earn points for each one avoided
+  pointsPerTransferAvoided: 5,
+} as const;
+
+// Money economy, see utils/economy.ts
+export const ECONOMY_CONFIG = {
+  fare: 5, // Income for each passenger delivered
+  constructionCostPerMetre: 0.1, // Cost of laying track, measured along the line as drawn
+  trainRunningCost: 120, // Weekly cost of each train
+  carriageRunningCost: 40, // Weekly cost of each attached carriage
+  overdraftLimit: 500, // The network goes bankrupt once its balance falls further below zero than this
+} as const;
+
+// Special stations and their events, see utils/specialEvents.ts
+export const VENUE_CONFIG = {
+  venueProbability: 0.15, // Chance a new station is a venue, once the first stations are placed - each venue appears once
+  airportMassMultiplier: 2.5, // Airports draw trips like a station this many times as dense
+  airportDistanceScale: 5000, // Distance (m) at which trips to and from an airport fall to half
+  eventProbability: 0.0005, // Chance per game loop cycle (100ms) that a venue with nothing planned announces an event
+  announcementLead: 12000, // Time (ms) between an event being announced and passengers heading for it
+  events: {
+    stadium: { name: 'Match', attendance: 40, duration: 5000 },
+    concertHall: { name: 'Concert', attendance: 25, duration: 4000 },
+  } as Record<EventVenueType, { name: string; attendance: number; duration: number }>,
+} as const;
+
+// Passenger patience and the city's reputation, see utils/reputation.ts
+export const PATIENCE_CONFIG = {
+  initialPatience: 30000, // Time (ms) a new passenger will wait before giving up
+  crowdedLoadFactor: 0.8, // Riders lose patience on trains at least this full
+  crowdedDrainRate: 0.5, // Patience lost riding a crowded train, relative to waiting on a platform
+  maxReputation: 100, // Reputation a new game starts with
+  abandonmentPenalty: 2, // Reputation lost for each passenger who gives up
+  deliveryReward: 0.2, // Reputation won back for each passenger delivered
+  minDemandMultiplier: 0.5, // Share of trips still made at zero reputation
+} as const;
+
 // Performance settings
 export const PERFORMANCE_CONFIG = {
   maxRenderedPassengers: 400, // Max individual passenger objects
@@ -49,5 +101,149 @@ export const PERFORMANCE_CONFIG = {
 export const TRAIN_CONFIG = {
   defaultSpeedKmh: 700, // Speed in km/h
   defaultCapacity: 6,
+  accelerationMs2: 150, // Game-scale acceleration away from stations (m/s²)
+  brakingMs2: 200, // Game-scale braking into stations (m/s²)
+  stationDwellTime: 600, // Minimum time (ms) a train waits at each station
+  dwellTimePerPassenger: 150, // Extra dwell (ms) for every passenger boarding or alighting
+  maxDwellTime: 3000, // Longest a train waits at a station (ms)
+  carriageCapacity: 6, // Extra seats per attached carriage
+  maxCarriages: 3, // Carriages per train
+  maxTrainsPerRoute: 4,
+  minHeadwayRatio: 0.5, // Trains hold at stations when closer than this share of even spacing to the train ahead
 } as const;
 
+// Headway control - the interval a line keeps between its trains, see utils/headway.ts
+export const HEADWAY_CONFIG = {
+  defaultTarget: 6000, // Target interval (ms) for a new line
+  minTarget: 2000,
+  maxTarget: 30000,
+  targetStep: 1000, // The target changes in steps of this (ms)
+  sampleSize: 8, // Recent departure intervals averaged into a line's measured headway
+} as const;
+
+// Block signalling on track shared by several lines, see utils/signalling.ts
+export const SIGNALLING_CONFIG = {
+  blockCapacity: 1, // Trains each way a shared block holds at once
+} as const;
+
+// Random service disruptions, see utils/disruptions.ts
+export const DISRUPTION_CONFIG = {
+  baseProbability: 0.0004, // Chance of a new disruption per game loop cycle (100ms), before the game mode's frequency
+  maxActive: 3, // No new disruptions start while this many are in force
+  typeWeights: { breakdown: 0.4, stationClosure: 0.3, signalFailure: 0.3 } as Record<DisruptionType, number>,
+  // Shortest and longest time (ms) each kind of disruption lasts
+  durations: {
+    breakdown: [8000, 16000],
+    stationClosure: [15000, 30000],
+    signalFailure: [10000, 20000],
+  } as Record<DisruptionType, [number, number]>,
+  feedLength: 6, // Events kept in the disruption feed
+} as const;
+
+// Overload settings - a station at capacity starts a countdown that ends the game when it runs out
+export const OVERLOAD_CONFIG = {
+  difficulties: {
+    easy: { stationCapacity: 25, gracePeriod: 8000, warningRatio: 0.75 },
+    normal: { stationCapacity: 20, gracePeriod: 5000, warningRatio: 0.75 },
+    hard: { stationCapacity: 15, gracePeriod: 3000, warningRatio: 0.8 },
+  } as Record<Difficulty, OverloadSettings>,
+  defaultDifficulty: 'normal' as Difficulty,
+} as const;
+
+// Simulated calendar - a game starts early on a Monday morning and each day takes dayDuration
+export const CLOCK_CONFIG = {
+  dayDuration: 12000, // Simulated time (ms) per day
+  daysPerWeek: 7, // Each new week brings a reward
+  startHour: 6,
+  sunriseHour: 6,
+  sunsetHour: 20,
+  twilightHours: 1.5, // Time taken to fade between night and day
+  // Passenger demand through the day as [hour, multiplier] points, interpolated in between -
+  // morning and evening rush hours with a quiet night, averaging a little under 1
+  demandCurve: [
+    [0, 0.3], [5, 0.4], [7, 1.4], [8.5, 1.8], [10, 1.0],
+    [16, 1.1], [17.5, 1.8], [19, 1.2], [22, 0.6], [24, 0.3],
+  ] as Array<[number, number]>,
+} as const;
+
+// Resource inventory settings - lines, rolling stock and upgrades are limited and earned weekly
+export const RESOURCE_CONFIG = {
+  initialInventory: { lines: 3, locomotives: 3, carriages: 0, tunnels: 3, interchanges: 0 } as Inventory,
+  maxLines: 8, // One per route colour
+  weeklyLocomotives: 1, // Granted automatically every week
+  rewardOptions: ['lines', 'carriages', 'tunnels', 'interchanges'] as RewardResource[],
+  rewardChoiceCount: 2, // Upgrades offered to choose from each week
+  rewardAmounts: { lines: 1, carriages: 1, tunnels: 2, interchanges: 1 } as Record<RewardResource, number>,
+  interchangeCapacityMultiplier: 2, // Building an interchange multiplies a station's capacity
+} as const;
+
+// Station type settings
+export const STATION_TYPE_CONFIG = {
+  basicTypes: ['circle', 'triangle', 'square'] as StationType[], // Guaranteed among the first stations
+  basicTypeWeights: { circle: 0.5, triangle: 0.3, square: 0.2 } as Record<string, number>,
+  specialTypes: ['pentagon', 'star', 'diamond'] as StationType[], // At most one station of each
+  specialTypeProbability: 0.1, // Chance a new station gets a special type
+} as const;
+
+// Game mode rulesets - chosen when a new game starts
+export const GAME_MODE_CONFIG = {
+  modes: {
+    normal: {
+      label: 'Normal',
+      description: 'Keep the city moving - an overloaded station ends the game',
+      passengerSpawnMultiplier: 1,
+      disruptionFrequency: 1,
+      stationSpawning: true,
+      canFail: true,
+      canChangeLines: true,
+      canPlaceStations: false,
+      weeklyRewards: true,
+      isRanked: true,
+      initialInventory: RESOURCE_CONFIG.initialInventory,
+      startingFunds: 1500,
+    },
+    endless: {
+      label: 'Endless',
+      description: 'No game over - crowded stations just stop filling up',
+      passengerSpawnMultiplier: 1,
+      disruptionFrequency: 1,
+      stationSpawning: true,
+      canFail: false,
+      canChangeLines: true,
+      canPlaceStations: false,
+      weeklyRewards: true,
+      isRanked: true,
+      initialInventory: RESOURCE_CONFIG.initialInventory,
+      startingFunds: 1500,
+    },
+    extreme: {
+      label: 'Extreme',
+      description: 'Lines are permanent once placed and passengers arrive faster',
+      passengerSpawnMultiplier: 1.25,
+      disruptionFrequency: 1.5,
+      stationSpawning: true,
+      canFail: true,
+      canChangeLines: false,
+      canPlaceStations: false,
+      weeklyRewards: true,
+      isRanked: true,
+      initialInventory: RESOURCE_CONFIG.initialInventory,
+      startingFunds: 1200,
+    },
+    creative: {
+      label: 'Creative',
+      description: 'Sandbox - click the map to place stations, select one and click again to move it',
+      passengerSpawnMultiplier: 0.5,
+      disruptionFrequency: 0,
+      stationSpawning: false,
+      canFail: false,
+      canChangeLines: true,
+      canPlaceStations: true,
+      weeklyRewards: false,
+      isRanked: false,
+      initialInventory: { lines: RESOURCE_CONFIG.maxLines, locomotives: 99, carriages: 99, tunnels: 99, interchanges: 99 },
+      startingFunds: 100000,
+    },
+  } as Record<GameMode, GameModeRules>,
+  defaultMode: 'normal' as GameMode,
+} as const;
@@ -1,27 +1,89 @@
 import { create } from 'zustand'
 import type { LngLat } from '../types'
-import { TRAIN_CONFIG } from '../config/gameConfig'
-import { generateStationPosition, calculateDistance } from '../utils/stationPositioning'
+import { GAME_MODE_CONFIG, HEADWAY_CONFIG, OVERLOAD_CONFIG, PATIENCE_CONFIG, RESOURCE_CONFIG, TRAIN_CONFIG } from '../config/gameConfig'
+import { generateStationPosition } from '../utils/stationPositioning'
 import { calculateTrainMovementNetwork } from '../utils/routeNetworkCalculator'
 import { calculateParallelRouteVisualization, generateVisualRouteNetwork } from '../utils/parallelRouteVisualizer'
-import type { Station, Route, Train, GameState } from '../types'
+import { pickStationType } from '../utils/stationTypes'
+import { pickStationVenue } from '../utils/specialEvents'
+import { calculatePassengerRoutingNetwork } from '../utils/passengerRouting'
+import { createSeededRandom, createRandomSeed } from '../utils/random'
+import { stepSimulation, createPassenger, updateStationPassengers, SIMULATION_STEP_MS } from '../utils/simulation'
+import { pickSavedGameState, SAVE_VERSION, type SaveGame, type SavedGameState } from '../utils/saveGame'
+import type { Replay, ReplayAction, ReplayActionData, ReplayLog } from '../utils/replay'
+import {
+  getNearestStationIndex,
+  insertMainStation,
+  isCircularRoute,
+  isClosingLoop,
+  moveTrainOffBranch,
+  remapLineTrainAfterInsertion,
+  remapLineTrainAfterRemoval,
+  remapTrainAfterInsertion,
+  remapTrainAfterRemoval,
+  removeMainStation
+} from '../utils/routeEditing'
+import { canExpressSkipStation, getRouteTracks, getTrainPatternStations, pruneExpressSkips, routeServesStation } from '../utils/servicePatterns'
+import { createInitialInventory, adjustInventory } from '../utils/resources'
+import { countRouteTunnels, isWaterLoaded, type WaterSource } from '../utils/waterCrossings'
+import { getOverloadSettings } from '../utils/overload'
+import { getGameModeRules } from '../utils/gameModes'
+import { createLedger, getConstructionCost, getTrackSegments, recordTransaction } from '../utils/economy'
+import { createScoreBreakdown } from '../utils/scoring'
+import { clampHeadwayTarget } from '../utils/headway'
+import { findSpacedCyclePosition, getCycleLength, getCyclePosition, getTrainStateAtCycle } from '../utils/trainSpacing'
+import type { Station, Route, RouteBranch, Train, GameState, Passenger, StationType, RewardResource, Difficulty, GameMode, HeadwayControl } from '../types'
 
 
+// Settings for a new game - anything left out carries over from the current game
+export interface NewGameOptions {
+  seed?: number
+  difficulty?: Difficulty
+  mode?: GameMode
+  blockSignalling?: boolean
+}
 
 interface GameActions {
   addStation: (bounds: { southwest: LngLat; northeast: LngLat }, position?: LngLat, waterCheckFn?: (position: LngLat) => boolean, transportationDensityFn?: (position: LngLat) => number, isInitialStation?: boolean, name?: string) => void
-  addRoute: (stationIds: string[], color: string) => void
-  extendRoute: (routeId: string, stationId: string, atEnd: boolean) => void
-  updateTrainPositions: () => void
-  resetGame: () => void
+  moveStation: (stationId: string, position: LngLat, routeTunnels?: Record<string, number>) => void
+  addRoute: (stationIds: string[], color: string, tunnels?: number) => void
+  extendRoute: (routeId: string, stationId: string, atEnd: boolean, tunnels?: number) => void
+  removeRoute: (routeId: string) => void
+  removeStationFromRoute: (routeId: string, stationId: string, tunnels?: number) => void
+  insertStationIntoRoute: (routeId: string, stationId: string, index: number, tunnels?: number) => void
+  addBranch: (routeId: string, junctionStationId: string, stationId: string, tunnels?: number) => void
+  extendBranch: (routeId: string, branchId: string, stationId: string, tunnels?: number) => void
+  trimBranch: (routeId: string, branchId: string, tunnels?: number) => void
+  removeBranch: (routeId: string, branchId: string, tunnels?: number) => void
+  addTrain: (routeId: string, branchId?: string | null) => void
+  removeTrain: (trainId: string) => void
+  setTrainExpress: (trainId: string, isExpress: boolean) => void
+  toggleExpressSkip: (routeId: string, stationId: string) => void
+  setHeadwayControl: (routeId: string, headwayControl: HeadwayControl) => void
+  setHeadwayTarget: (routeId: string, headwayTarget: number) => void
+  addCarriage: (trainId: string) => void
+  removeCarriage: (trainId: string) => void
+  buildInterchange: (stationId: string) => void
+  chooseReward: (resource: RewardResource) => void
+  advanceSimulation: (dt: number) => void
+  resetGame: (options?: NewGameOptions) => void
   changeCity: () => void
-  addPassengerToStation: (stationId: string) => void
+  loadGame: (save: SaveGame) => void
+  addPassengerToStation: (stationId: string, destinationType?: StationType) => void
   selectStation: (stationId: string | null) => void
   triggerGameOver: (reason: string) => void
   // Dual caching system actions
   updateTrainMovementNetwork: () => void
   updateVisualRouteNetwork: () => void
+  updatePassengerRoutingNetwork: () => void
   toggleVisualization: () => void
+  setWaterSource: (waterSource: WaterSource | null) => void
+  // Replay playback actions
+  startPlayback: (replay: Replay) => void
+  stepPlayback: () => void
+  seekPlayback: (tick: number) => void
+  setPlaybackPaused: (isPaused: boolean) => void
+  stopPlayback: () => void
 }
 
 const STATION_COLORS = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#f9ca24', '#f0932b', '#eb4d4b', '#6c5ce7', '#a29bfe']
@@ -29,29 +91,168 @@ const STATION_COLORS = ['#ff6b6b', '#4ecdc4', '#45b7d1', '#f9ca24', '#f0932b', '
 // More distinguishable route colors with better contrast
 export const ROUTE_COLORS = ['#e74c3c', '#2ecc71', '#3498db', '#f39c12', '#9b59b6', '#1abc9c', '#e67e22', '#34495e']
 
+// First colour not used by an existing line, so removed lines free their colour for the next one
+export function getNextRouteColor(routes: Route[]): string {
+  return ROUTE_COLORS.find(color => !routes.some(route => route.color === color))
+    ?? ROUTE_COLORS[routes.length % ROUTE_COLORS.length]
+}
+
+// Fresh simulated clock and RNG for a new game
+function createSimulationClock(seed: number) {
+  return {
+    seed,
+    rngState: seed,
+    elapsedTime: 0,
+    tick: 0,
+    nextEntityId: 1,
+    lastStationSpawnTime: 0,
+    pendingStationSpawn: false
+  }
+}
+
+// Tunnels a line needs once changed. Segments it keeps keep their tunnels, and only the segments
+// laid or taken up are measured - once the water around them has loaded, since the map only holds
+// the water near where it has been looked at. Replays pass the count recorded with the action,
+// since the map's water data isn't part of the game state.
+function resolveRouteTunnels(
+  state: GameState,
+  previous: Route | null,
+  updated: Pick<Route, 'stations' | 'branches'>,
+  recorded?: number,
+  updatedStations: Station[] = state.stations
+): number | null {
+  if (recorded !== undefined) return recorded
+
+  const getPosition = (stations: Station[], id: string) => stations.find(s => s.id === id)?.position
+  const hasMoved = (id: string) => getPosition(state.stations, id) !== getPosition(updatedStations, id)
+  const getChangedSegments = (route: Pick<Route, 'stations' | 'branches'>, unchanged: Map<string, [string, string]>, stations: Station[]) =>
+    [...getTrackSegments({ id: '', ...route })]
+      .filter(([key, [fromId, toId]]) => !unchanged.has(key) || hasMoved(fromId) || hasMoved(toId))
+      .map(([, ids]) => ids.map(id => getPosition(stations, id)).filter((position): position is LngLat => !!position))
+
+  const previousSegments = previous ? getTrackSegments(previous) : new Map<string, [string, string]>()
+  const laid = getChangedSegments(updated, previousSegments, updatedStations)
+  const takenUp = previous ? getChangedSegments(previous, getTrackSegments({ id: '', ...updated }), state.stations) : []
+  if (![...laid, ...takenUp].every(positions => isWaterLoaded(positions, state.waterSource))) {
+    refuseAction('Water for this part of the map is still loading')
+    return null
+  }
+  const countTunnels = (segments: LngLat[][]) =>
+    segments.filter(positions => countRouteTunnels(positions, state.waterSource) > 0).length
+  return Math.max(0, (previous?.tunnels ?? 0) + countTunnels(laid) - countTunnels(takenUp))
+}
+
+// Refuse a change the player asked for, telling them why
+function refuseAction(message: string) {
+  console.log(message)
+  useGameStore.setState({ refusal: { message } })
+}
+
+// Whether the balance covers the new track a change to a line lays - see utils/economy.ts
+function canAffordConstruction(state: GameState, cost: number): boolean {
+  if (cost <= state.money) return true
+  refuseAction('Not enough money to build the track')
+  return false
+}
+
+function payForConstruction(state: GameState, cost: number): Pick<GameState, 'money' | 'ledger'> {
+  return { money: state.money - cost, ledger: recordTransaction(state.ledger, 'construction', cost) }
+}
+
+// Whether the game mode lets placed lines be shortened, re-routed or removed
+function canChangeLines(state: GameState): boolean {
+  if (getGameModeRules(state.mode).canChangeLines) return true
+  refuseAction('Lines cannot be changed once placed in this mode')
+  return false
+}
+
+// Put riders leaving their trains back on the platform of the station nearest to each train
+function returnRidersToStations(
+  stations: Station[],
+  route: Route,
+  unloading: Array<{ train: Train; passengers: Passenger[] }>,
+  now: number
+): Station[] {
+  const strandedPassengers = new Map<string, Passenger[]>()
+  for (const { train, passengers } of unloading) {
+    if (passengers.length === 0) continue
+    const patternStations = getTrainPatternStations(route, train)
+    const stationId = patternStations[getNearestStationIndex(train, patternStations.length)]
+    strandedPassengers.set(stationId, [...(strandedPassengers.get(stationId) || []), ...passengers])
+  }
+  if (strandedPassengers.size === 0) return stations
+
+  return stations.map(station => {
+    const passengers = strandedPassengers.get(station.id)
+    return passengers ? updateStationPassengers(station, [...station.passengers, ...passengers], now) : station
+  })
+}
+
+// Empty game with a fresh clock, and a replay log recording from its start
+function createNewGame(seed: number, difficulty: Difficulty, mode: GameMode, blockSignalling: boolean) {
+  const start: SavedGameState = {
+    stations: [],
+    routes: [],
+    trains: [],
+    score: 0,
+    scoreBreakdown: createScoreBreakdown(),
+    ...createSimulationClock(seed),
+    difficulty,
+    mode,
+    blockSignalling,
+    inventory: createInitialInventory(mode),
+    week: 0,
+    rewardChoice: null,
+    reputation: PATIENCE_CONFIG.maxReputation,
+    abandonedPassengers: 0,
+    money: getGameModeRules(mode).startingFunds,
+    ledger: createLedger(),
+    lineHeadways: {},
+    disruptions: [],
+    disruptionFeed: [],
+    specialEvents: []
+  }
+  return { ...start, replayLog: { start, actions: [] } as ReplayLog }
+}
+
+// Set while playback applies recorded actions; player input is ignored during playback otherwise
+let isApplyingReplayAction = false
+
+// Player actions are blocked while a replay is playing, except those coming from the replay itself
+function isBlockedByPlayback(state: GameState): boolean {
+  return state.playback !== null && !isApplyingReplayAction
+}
+
+// Append a player action to the replay log, stamped with the current tick (not recorded during playback)
+function recordAction(state: GameState, action: ReplayActionData): Pick<GameState, 'replayLog'> {
+  if (state.playback) return { replayLog: state.replayLog }
+  const recorded: ReplayAction = { ...action, tick: state.tick }
+  return { replayLog: { ...state.replayLog, actions: [...state.replayLog.actions, recorded] } }
+}
+
 export const useGameStore = create<GameState & GameActions>((set, get) => ({
   // Initial state
-  stations: [],
-  routes: [],
-  trains: [],
-  score: 0,
   isPlaying: true,
   gameSpeed: 1,
   selectedStationId: null,
   isGameOver: false,
   gameOverReason: null,
   gameOverStats: null,
-  gameStartTime: Date.now(),
-  lastStationSpawnTime: Date.now(),
+  ...createNewGame(createRandomSeed(), OVERLOAD_CONFIG.defaultDifficulty, GAME_MODE_CONFIG.defaultMode, false), // Empty stations, routes, trains and score
   // Dual caching system - completely separate networks
   trainMovementNetwork: null,
   visualRouteNetwork: null,
+  passengerRoutingNetwork: null,
   // Default to parallel visualization (can be toggled)
   useParallelVisualization: true,
+  playback: null,
+  refusal: null,
+  waterSource: null,
 
   // Actions
   addStation: (bounds, position, waterCheckFn, transportationDensityFn, isInitialStation = false, name) => {
     const state = get()
+    if (isBlockedByPlayback(state)) return
     const stationPosition = position || generateStationPosition(state.stations, bounds, waterCheckFn, isInitialStation)
     // Calculate transportation density if function provided
     let buildingDensity = 0.5 // Default medium density (kept property name for compatibility)
@@ -62,56 +263,153 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
         console.warn('Error calculating transportation density:', error)
       }
     }
+    const random = createSeededRandom(state.rngState)
+    const type = pickStationType(state.stations, random.next)
+    const venue = pickStationVenue(state.stations, isInitialStation, random.next)
     const newStation: Station = {
-      id: `station-${Date.now()}`,
+      id: `station-${state.nextEntityId}`,
       position: stationPosition,
       color: STATION_COLORS[state.stations.length % STATION_COLORS.length],
-      passengerCount: 0,
+      type,
+      passengers: [],
+      capacity: getOverloadSettings(state.difficulty).stationCapacity,
       buildingDensity, // Still called buildingDensity in Station for now
-      name
+      name,
+      ...(venue ? { venue } : {})
     }
     set({ 
       stations: [...state.stations, newStation],
-      lastStationSpawnTime: Date.now()
+      rngState: random.getState(),
+      nextEntityId: state.nextEntityId + 1,
+      lastStationSpawnTime: state.elapsedTime,
+      pendingStationSpawn: false,
+      ...recordAction(state, { type: 'addStation', position: stationPosition, buildingDensity, isInitialStation, name })
+    })
+  },
+
+  moveStation: (stationId, position, recordedRouteTunnels) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+    if (!getGameModeRules(state.mode).canPlaceStations) return
+
+    const station = state.stations.find(s => s.id === stationId)
+    if (!station) return
+
+    // Lines through the station follow it, so their water crossings are measured again
+    const movedState = { ...state, stations: state.stations.map(s => s.id === stationId ? { ...s, position } : s) }
+    const routeTunnels: Record<string, number> = {}
+    let extraTunnels = 0
+    for (const route of state.routes) {
+      if (!routeServesStation(route, stationId)) continue
+      const tunnels = resolveRouteTunnels(state, route, route, recordedRouteTunnels?.[route.id], movedState.stations)
+      if (tunnels === null) return
+      routeTunnels[route.id] = tunnels
+      extraTunnels += routeTunnels[route.id] - route.tunnels
+    }
+    if (extraTunnels > state.inventory.tunnels) {
+      refuseAction('Not enough tunnels to cross the water')
+      return
+    }
+
+    set({
+      stations: movedState.stations,
+      routes: state.routes.map(route => route.id in routeTunnels ? { ...route, tunnels: routeTunnels[route.id] } : route),
+      inventory: adjustInventory(state.inventory, 'tunnels', -extraTunnels),
+      ...recordAction(state, { type: 'moveStation', stationId, position, routeTunnels })
     })
+
+    // Update all networks after moving a station
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
   },
 
-  addRoute: (stationIds, color) => {
+  addRoute: (stationIds, color, recordedTunnels) => {
     const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    // Every line needs a line from the inventory and a locomotive for its first train
+    if (state.inventory.lines <= 0 || state.inventory.locomotives <= 0) {
+      refuseAction('No lines or locomotives left in the inventory')
+      return
+    }
+    const tunnels = resolveRouteTunnels(state, null, { stations: stationIds, branches: [] }, recordedTunnels)
+    if (tunnels === null) return
+    if (tunnels > state.inventory.tunnels) {
+      refuseAction('Not enough tunnels to cross the water')
+      return
+    }
+    const constructionCost = getConstructionCost(null, { id: '', stations: stationIds, branches: [] }, state.stations)
+    if (!canAffordConstruction(state, constructionCost)) return
     
     const newRoute: Route = {
-      id: `route-${Date.now()}`,
+      id: `route-${state.nextEntityId}`,
       color,
-      stations: stationIds
+      stations: stationIds,
+      branches: [],
+      expressSkips: [],
+      headwayControl: 'off',
+      headwayTarget: HEADWAY_CONFIG.defaultTarget,
+      tunnels
     }
 
     const newTrain: Train = {
-      id: `train-${Date.now()}`,
+      id: `train-${state.nextEntityId + 1}`,
       routeId: newRoute.id,
+      branchId: null,
+      isExpress: false,
       position: 0,
       direction: 1,
-      passengerCount: 0,
+      passengers: [],
       capacity: TRAIN_CONFIG.defaultCapacity,
+      carriages: 0,
       speedKmh: TRAIN_CONFIG.defaultSpeedKmh,
+      speed: 0,
       waitTime: 0,
       lastStationVisited: -1 // No station visited yet
     }
 
     set({ 
       routes: [...state.routes, newRoute],
-      trains: [...state.trains, newTrain]
+      trains: [...state.trains, newTrain],
+      nextEntityId: state.nextEntityId + 2,
+      inventory: {
+        ...state.inventory,
+        lines: state.inventory.lines - 1,
+        locomotives: state.inventory.locomotives - 1,
+        tunnels: state.inventory.tunnels - tunnels
+      },
+      ...payForConstruction(state, constructionCost),
+      ...recordAction(state, { type: 'addRoute', stationIds, color, tunnels })
     })
     
-    // Update both networks after adding new route
+    // Update all networks after adding new route
     get().updateTrainMovementNetwork()
     get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
   },
 
-  extendRoute: (routeId, newStationId, atEnd) => {
+  extendRoute: (routeId, newStationId, atEnd, recordedTunnels) => {
     const state = get()
+    if (isBlockedByPlayback(state)) return
     
     const targetRoute = state.routes.find(r => r.id === routeId)
     if (!targetRoute) return
+    if (isCircularRoute(targetRoute.stations)) {
+      refuseAction('A loop has no ends to extend')
+      return
+    }
+
+    // A station already on the line can only be the far terminus, which closes the line into a loop
+    const closesLoop = isClosingLoop(targetRoute, newStationId, atEnd)
+    if (routeServesStation(targetRoute, newStationId) && !closesLoop) {
+      refuseAction('Station is already on this line')
+      return
+    }
+    if (closesLoop && targetRoute.branches.length > 0) {
+      refuseAction('Lines with branches cannot be closed into a loop')
+      return
+    }
 
     // Check if this station is already connected to the endpoint we're extending from
     const endpointStationId = atEnd 
@@ -127,200 +425,621 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     })
 
     if (connectionExists) {
-      console.log('Connection already exists on this route')
+      refuseAction('Connection already exists on this route')
       return // Don't extend with duplicate connection
     }
 
+    // Extending from the start shifts every station along, so trains and branch junctions move with them
+    const updatedRoute = atEnd
+      ? { ...targetRoute, stations: [...targetRoute.stations, newStationId] }
+      : insertMainStation(targetRoute, newStationId, 0)
+    const tunnels = resolveRouteTunnels(state, targetRoute, updatedRoute, recordedTunnels)
+    if (tunnels === null) return
+    if (tunnels - targetRoute.tunnels > state.inventory.tunnels) {
+      refuseAction('Not enough tunnels to cross the water')
+      return
+    }
+    const constructionCost = getConstructionCost(targetRoute, updatedRoute, state.stations)
+    if (!canAffordConstruction(state, constructionCost)) return
+
     set({
-      routes: state.routes.map(route => {
-        if (route.id !== routeId) return route
-        
-        const updatedStations = atEnd 
-          ? [...route.stations, newStationId]
-          : [newStationId, ...route.stations]
-        
-        return { ...route, stations: updatedStations }
-      })
+      routes: state.routes.map(route => route.id === routeId ? { ...updatedRoute, tunnels } : route),
+      trains: atEnd ? state.trains : state.trains.map(train => train.routeId === routeId ? remapTrainAfterInsertion(train, 0) : train),
+      inventory: adjustInventory(state.inventory, 'tunnels', targetRoute.tunnels - tunnels),
+      ...payForConstruction(state, constructionCost),
+      ...recordAction(state, { type: 'extendRoute', routeId, stationId: newStationId, atEnd, tunnels })
     })
     
-    // Update both networks after extending route
+    // Update all networks after extending route
     get().updateTrainMovementNetwork()
     get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
   },
 
-  updateTrainPositions: () => {
+  removeRoute: (routeId) => {
     const state = get()
-    if (!state.isPlaying) return
-
-    let newScore = state.score
-
-    const updatedTrains = state.trains.map(train => {
-      const route = state.routes.find(r => r.id === train.routeId)
-      
-      // Use train movement network for position calculations
-      const trainMovementNetwork = state.trainMovementNetwork;
-      const movementRoute = trainMovementNetwork?.routes.get(train.routeId);
-      const coordinates = movementRoute?.routeCoordinates || [];
-      
-      if (!route || coordinates.length < 2) return train
-
-      // REALISTIC METRO SIMULATION MOVEMENT SYSTEM
-      // Use configured train speed for accurate simulation
-      const speedKmh = train.speedKmh || TRAIN_CONFIG.defaultSpeedKmh;
-      const speedMs = speedKmh / 3.6; // Convert km/h to m/s
-      const gameLoopInterval = 100; // milliseconds
-      
-      const stationPositions = movementRoute?.stationPositions || [];
-      if (stationPositions.length < 2) return train; // Need at least 2 stations
-
-      let newPosition = train.position
-      let newDirection = train.direction
-      let newWaitTime = train.waitTime
-      let newPassengerCount = train.passengerCount
-      let newLastStationVisited = train.lastStationVisited
-
-      // Check if route is circular (first and last station are the same)
-      const isCircularRoute = route.stations.length > 2 && route.stations[0] === route.stations[route.stations.length - 1]
-      const maxPosition = stationPositions.length - 1;
-
-      // We'll calculate segment indices as needed below
-
-      // Check if train is very close to a station (within 0.02 units)
-      const nearestStationIndex = Math.round(train.position);
-      const distanceToNearestStation = Math.abs(train.position - nearestStationIndex);
-      const isAtStation = distanceToNearestStation < 0.02;
-
-      // Handle station stops and passenger exchange
-      if (isAtStation && nearestStationIndex !== train.lastStationVisited && nearestStationIndex >= 0 && nearestStationIndex < stationPositions.length) {
-        if (newWaitTime <= 0) {
-          // Just arrived - handle passengers
-          const stationId = route.stations[nearestStationIndex]
-          newScore += train.passengerCount * 10 // Score for delivered passengers
-          newPassengerCount = 0 // All passengers get off
-          
-          // Pick up new passengers
-          const station = state.stations.find(s => s.id === stationId)
-          if (station && station.passengerCount > 0) {
-            const pickupCount = Math.min(station.passengerCount, train.capacity)
-            newPassengerCount = pickupCount
-            set({
-              stations: state.stations.map(s => {
-                if (s.id === stationId) {
-                  const newPassengerCount = Math.max(0, s.passengerCount - pickupCount)
-                  return {
-                    ...s,
-                    passengerCount: newPassengerCount,
-                    overloadedSince: newPassengerCount < 20 ? undefined : s.overloadedSince
-                  }
-                }
-                return s
-              })
-            })
-          }
-          
-          newWaitTime = 10 // Wait for 1 second
-          newLastStationVisited = nearestStationIndex
-        } else {
-          // Still waiting at station
-          newWaitTime--
-        }
-      } else if (newWaitTime > 0) {
-        // Continue waiting at station
-        newWaitTime--
-      } else {
-        // Normal movement between stations
-        // Only reset lastStationVisited when train is far enough from any station
-        // to prevent multiple visits to the same station due to position oscillation
-        if (distanceToNearestStation > 0.1) {
-          newLastStationVisited = -1; // Reset when sufficiently far from any station
-        }
-        
-        // Calculate movement step based on realistic train speed
-        const speedMeterPerLoop = speedMs * (gameLoopInterval / 1000);
-        
-        // For non-circular routes, calculate average distance between adjacent stations
-        let totalRouteDistance = 0;
-        for (let i = 0; i < stationPositions.length - 1; i++) {
-          totalRouteDistance += calculateDistance(stationPositions[i], stationPositions[i + 1]);
-        }
-        const avgSegmentDistance = totalRouteDistance / Math.max(1, stationPositions.length - 1);
-        
-        // Convert speed to position units per loop
-        const positionProgressPerLoop = avgSegmentDistance > 0 ? speedMeterPerLoop / avgSegmentDistance : 0.01;
-        
-        // Apply movement
-        newPosition = train.position + positionProgressPerLoop * train.direction * state.gameSpeed;
-        
-        // Handle route boundaries
-        if (isCircularRoute) {
-          if (newPosition >= maxPosition) {
-            newPosition = 0;
-          } else if (newPosition < 0) {
-            newPosition = maxPosition - 0.01;
-          }
-        } else {
-          // Non-circular route: reverse direction at endpoints
-          if (newPosition >= maxPosition) {
-            newPosition = maxPosition;
-            newDirection = -1;
-          } else if (newPosition <= 0) {
-            newPosition = 0;
-            newDirection = 1;
-          }
-        }
-      }
+    if (isBlockedByPlayback(state) || !canChangeLines(state)) return
 
-      return {
-        ...train,
-        position: newPosition,
-        direction: newDirection,
-        passengerCount: newPassengerCount,
-        waitTime: newWaitTime,
-        lastStationVisited: newLastStationVisited
-      }
+    const route = state.routes.find(r => r.id === routeId)
+    if (!route) return
+
+    // Riders on the removed line's trains get off at the station nearest to their train
+    const lineTrains = state.trains.filter(train => train.routeId === routeId)
+    const unloading = lineTrains.map(train => ({ train, passengers: train.passengers }))
+
+    // The removed line's departure log goes with it
+    const lineHeadways = { ...state.lineHeadways }
+    delete lineHeadways[routeId]
+
+    set({
+      routes: state.routes.filter(r => r.id !== routeId),
+      trains: state.trains.filter(t => t.routeId !== routeId),
+      lineHeadways,
+      stations: returnRidersToStations(state.stations, route, unloading, state.elapsedTime),
+      // The line, its trains and their carriages go back to the inventory
+      inventory: {
+        ...state.inventory,
+        lines: state.inventory.lines + 1 + route.branches.length,
+        locomotives: state.inventory.locomotives + lineTrains.length,
+        tunnels: state.inventory.tunnels + route.tunnels,
+        carriages: state.inventory.carriages + lineTrains.reduce((total, train) => total + train.carriages, 0)
+      },
+      ...recordAction(state, { type: 'removeRoute', routeId })
     })
 
-    set({ 
-      trains: updatedTrains,
-      score: newScore
+    // Update all networks after removing route
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
+  removeStationFromRoute: (routeId, stationId, recordedTunnels) => {
+    const state = get()
+    if (isBlockedByPlayback(state) || !canChangeLines(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    if (!route) return
+    // Taking out a loop's shared end station opens the loop where it closed
+    const isLoopEnd = isCircularRoute(route.stations) && route.stations[0] === stationId
+    const removedIndex = isLoopEnd ? route.stations.length - 1 : route.stations.indexOf(stationId)
+    if (removedIndex === -1) return
+
+    // A line needs two stations - removing one from a two-station line removes the line
+    if (route.stations.length <= 2) {
+      get().removeRoute(routeId)
+      return
+    }
+
+    let remainingRoute = removeMainStation(route, removedIndex)
+    let remapTrain = (train: Train) => remapLineTrainAfterRemoval(train, route, removedIndex)
+    const remaining = remainingRoute.stations
+    if (remaining.length === 3 && remaining[0] === remaining[2]) {
+      // Too few stations left to go round - the loop becomes a two-station line
+      const loopRoute = remainingRoute
+      const remapAfterFirstRemoval = remapTrain
+      remainingRoute = removeMainStation(loopRoute, 2)
+      remapTrain = train => remapLineTrainAfterRemoval(remapAfterFirstRemoval(train), loopRoute, 2)
+    }
+    // The segment bridging the gap may cross water the old ones didn't
+    const tunnels = resolveRouteTunnels(state, route, remainingRoute, recordedTunnels)
+    if (tunnels === null) return
+    if (tunnels - route.tunnels > state.inventory.tunnels) {
+      refuseAction('Not enough tunnels to cross the water')
+      return
+    }
+    const constructionCost = getConstructionCost(route, remainingRoute, state.stations)
+    if (!canAffordConstruction(state, constructionCost)) return
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? pruneExpressSkips({ ...remainingRoute, tunnels }) : r),
+      // Trains keep running and riders stay on board; routing sends them on from the next stop
+      trains: state.trains.map(train => train.routeId === routeId ? remapTrain(train) : train),
+      // Branches leaving from the removed station or a new terminus go back to the inventory
+      inventory: adjustInventory(
+        adjustInventory(state.inventory, 'tunnels', route.tunnels - tunnels),
+        'lines', route.branches.length - remainingRoute.branches.length
+      ),
+      ...payForConstruction(state, constructionCost),
+      ...recordAction(state, { type: 'removeStationFromRoute', routeId, stationId, tunnels })
+    })
+
+    // Update all networks after re-routing
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
+  insertStationIntoRoute: (routeId, stationId, index, recordedTunnels) => {
+    const state = get()
+    if (isBlockedByPlayback(state) || !canChangeLines(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    if (!route || routeServesStation(route, stationId)) return
+    // Only between two existing stations - the ends are handled by extendRoute
+    if (index <= 0 || index >= route.stations.length) return
+
+    const updatedRoute = insertMainStation(route, stationId, index)
+    const tunnels = resolveRouteTunnels(state, route, updatedRoute, recordedTunnels)
+    if (tunnels === null) return
+    if (tunnels - route.tunnels > state.inventory.tunnels) {
+      refuseAction('Not enough tunnels to cross the water')
+      return
+    }
+    const constructionCost = getConstructionCost(route, updatedRoute, state.stations)
+    if (!canAffordConstruction(state, constructionCost)) return
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? { ...updatedRoute, tunnels } : r),
+      trains: state.trains.map(train => train.routeId === routeId ? remapLineTrainAfterInsertion(train, route, index) : train),
+      inventory: adjustInventory(state.inventory, 'tunnels', route.tunnels - tunnels),
+      ...payForConstruction(state, constructionCost),
+      ...recordAction(state, { type: 'insertStationIntoRoute', routeId, stationId, index, tunnels })
+    })
+
+    // Update all networks after re-routing
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
+  addBranch: (routeId, junctionStationId, stationId, recordedTunnels) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    if (!route) return
+    if (isCircularRoute(route.stations)) {
+      refuseAction('Loops cannot have branches')
+      return
+    }
+    // Branches leave between the line's ends - at an end the line itself can be extended
+    const junctionIndex = route.stations.indexOf(junctionStationId)
+    if (junctionIndex <= 0 || junctionIndex >= route.stations.length - 1) return
+    if (routeServesStation(route, stationId)) {
+      refuseAction('Station is already on this line')
+      return
+    }
+
+    // Like a new line, a branch needs a line from the inventory and a locomotive for its first train
+    if (state.inventory.lines <= 0 || state.inventory.locomotives <= 0) {
+      refuseAction('No lines or locomotives left in the inventory')
+      return
+    }
+    const branch: RouteBranch = { id: `branch-${state.nextEntityId}`, junctionIndex, stations: [stationId] }
+    const updatedRoute = { ...route, branches: [...route.branches, branch] }
+    const tunnels = resolveRouteTunnels(state, route, updatedRoute, recordedTunnels)
+    if (tunnels === null) return
+    if (tunnels - route.tunnels > state.inventory.tunnels) {
+      refuseAction('Not enough tunnels to cross the water')
+      return
+    }
+    const constructionCost = getConstructionCost(route, updatedRoute, state.stations)
+    if (!canAffordConstruction(state, constructionCost)) return
+
+    const newTrain: Train = {
+      id: `train-${state.nextEntityId + 1}`,
+      routeId,
+      branchId: branch.id,
+      isExpress: false,
+      position: 0,
+      direction: 1,
+      passengers: [],
+      capacity: TRAIN_CONFIG.defaultCapacity,
+      carriages: 0,
+      speedKmh: TRAIN_CONFIG.defaultSpeedKmh,
+      speed: 0,
+      waitTime: 0,
+      lastStationVisited: -1
+    }
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? { ...updatedRoute, tunnels } : r),
+      trains: [...state.trains, newTrain],
+      nextEntityId: state.nextEntityId + 2,
+      inventory: {
+        ...state.inventory,
+        lines: state.inventory.lines - 1,
+        locomotives: state.inventory.locomotives - 1,
+        tunnels: state.inventory.tunnels - (tunnels - route.tunnels)
+      },
+      ...payForConstruction(state, constructionCost),
+      ...recordAction(state, { type: 'addBranch', routeId, junctionStationId, stationId, tunnels })
+    })
+
+    // Update all networks after adding a branch
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
+  extendBranch: (routeId, branchId, stationId, recordedTunnels) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    const branch = route?.branches.find(b => b.id === branchId)
+    if (!route || !branch) return
+    if (routeServesStation(route, stationId)) {
+      refuseAction('Station is already on this line')
+      return
+    }
+
+    const updatedRoute = {
+      ...route,
+      branches: route.branches.map(b => b.id === branchId ? { ...b, stations: [...b.stations, stationId] } : b)
+    }
+    const tunnels = resolveRouteTunnels(state, route, updatedRoute, recordedTunnels)
+    if (tunnels === null) return
+    if (tunnels - route.tunnels > state.inventory.tunnels) {
+      refuseAction('Not enough tunnels to cross the water')
+      return
+    }
+    const constructionCost = getConstructionCost(route, updatedRoute, state.stations)
+    if (!canAffordConstruction(state, constructionCost)) return
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? { ...updatedRoute, tunnels } : r),
+      inventory: adjustInventory(state.inventory, 'tunnels', route.tunnels - tunnels),
+      ...payForConstruction(state, constructionCost),
+      ...recordAction(state, { type: 'extendBranch', routeId, branchId, stationId, tunnels })
+    })
+
+    // Update all networks after extending a branch
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
+  trimBranch: (routeId, branchId, recordedTunnels) => {
+    const state = get()
+    if (isBlockedByPlayback(state) || !canChangeLines(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    const branch = route?.branches.find(b => b.id === branchId)
+    if (!route || !branch) return
+    // A branch needs a station of its own - trimming the last one removes the branch
+    if (branch.stations.length <= 1) {
+      get().removeBranch(routeId, branchId, recordedTunnels)
+      return
+    }
+
+    const updatedRoute = {
+      ...route,
+      branches: route.branches.map(b => b.id === branchId ? { ...b, stations: b.stations.slice(0, -1) } : b)
+    }
+    const tunnels = resolveRouteTunnels(state, route, updatedRoute, recordedTunnels)
+    if (tunnels === null) return
+    const patternStationCount = branch.junctionIndex + branch.stations.length
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? pruneExpressSkips({ ...updatedRoute, tunnels }) : r),
+      trains: state.trains.map(train => train.routeId === routeId && train.branchId === branchId
+        ? remapTrainAfterRemoval(train, patternStationCount, patternStationCount)
+        : train
+      ),
+      inventory: adjustInventory(state.inventory, 'tunnels', route.tunnels - tunnels),
+      ...recordAction(state, { type: 'trimBranch', routeId, branchId, tunnels })
     })
 
-    // Check for game over condition: any station with 20+ passengers for 5+ seconds
-    const now = Date.now()
-    const overloadedStation = state.stations.find(station => 
-      station.passengerCount >= 20 && 
-      station.overloadedSince && 
-      (now - station.overloadedSince) >= 5000 // 5 seconds
+    // Update all networks after re-routing
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
+  removeBranch: (routeId, branchId, recordedTunnels) => {
+    const state = get()
+    if (isBlockedByPlayback(state) || !canChangeLines(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    const branch = route?.branches.find(b => b.id === branchId)
+    if (!route || !branch) return
+
+    const updatedRoute = { ...route, branches: route.branches.filter(b => b.id !== branchId) }
+    const tunnels = resolveRouteTunnels(state, route, updatedRoute, recordedTunnels)
+    if (tunnels === null) return
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? pruneExpressSkips({ ...updatedRoute, tunnels }) : r),
+      // The branch's trains stay on the line and carry on along its main stations
+      trains: state.trains.map(train => train.routeId === routeId && train.branchId === branchId
+        ? moveTrainOffBranch(train, branch.junctionIndex)
+        : train
+      ),
+      inventory: adjustInventory(
+        adjustInventory(state.inventory, 'tunnels', route.tunnels - tunnels),
+        'lines', 1
+      ),
+      ...recordAction(state, { type: 'removeBranch', routeId, branchId, tunnels })
+    })
+
+    // Update all networks after removing a branch
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
+  addTrain: (routeId, branchId = null) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    const lineTrains = state.trains.filter(t => t.routeId === routeId)
+    if (!route || lineTrains.length >= TRAIN_CONFIG.maxTrainsPerRoute) return
+    if (branchId && !route.branches.some(branch => branch.id === branchId)) return
+    if (state.inventory.locomotives <= 0) {
+      refuseAction('No locomotives left in the inventory')
+      return
+    }
+
+    // Start the new train in the middle of the largest gap between the trains running its pattern.
+    // Loops alternate directions so trains run both ways round once there are two.
+    const patternStations = getTrainPatternStations(route, { branchId })
+    const patternTrains = lineTrains.filter(t => t.branchId === branchId)
+    const isCircular = isCircularRoute(patternStations)
+    const stationCount = patternStations.length
+    const clockwiseCount = patternTrains.filter(t => t.direction === 1).length
+    const loopDirection = isCircular && clockwiseCount > patternTrains.length - clockwiseCount ? -1 : 1
+    const cyclePosition = findSpacedCyclePosition(
+      patternTrains
+        .filter(t => !isCircular || t.direction === loopDirection)
+        .map(t => getCyclePosition(t, stationCount, isCircular)),
+      getCycleLength(stationCount, isCircular)
     )
-    
-    if (overloadedStation && state.isPlaying) {
-      get().triggerGameOver(`Station ${overloadedStation.name} was overloaded for too long!`)
+
+    const newTrain: Train = {
+      id: `train-${state.nextEntityId}`,
+      routeId,
+      branchId,
+      isExpress: false,
+      ...getTrainStateAtCycle(cyclePosition, stationCount, isCircular, loopDirection),
+      passengers: [],
+      capacity: TRAIN_CONFIG.defaultCapacity,
+      carriages: 0,
+      speedKmh: TRAIN_CONFIG.defaultSpeedKmh,
+      speed: 0,
+      waitTime: 0,
+      lastStationVisited: -1
+    }
+
+    set({
+      trains: [...state.trains, newTrain],
+      nextEntityId: state.nextEntityId + 1,
+      inventory: adjustInventory(state.inventory, 'locomotives', -1),
+      ...recordAction(state, { type: 'addTrain', routeId, branchId })
+    })
+  },
+
+  removeTrain: (trainId) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const train = state.trains.find(t => t.id === trainId)
+    const route = train && state.routes.find(r => r.id === train.routeId)
+    if (!train || !route) return
+    // Every line keeps at least one train - remove the line itself to take the last one away
+    if (state.trains.filter(t => t.routeId === route.id).length <= 1) return
+
+    set({
+      trains: state.trains.filter(t => t.id !== trainId),
+      stations: returnRidersToStations(state.stations, route, [{ train, passengers: train.passengers }], state.elapsedTime),
+      inventory: {
+        ...state.inventory,
+        locomotives: state.inventory.locomotives + 1,
+        carriages: state.inventory.carriages + train.carriages
+      },
+      ...recordAction(state, { type: 'removeTrain', trainId })
+    })
+  },
+
+  setTrainExpress: (trainId, isExpress) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const train = state.trains.find(t => t.id === trainId)
+    if (!train || train.isExpress === isExpress) return
+
+    // Riders stay on board - the express only lets them off where it calls, and routing
+    // sends anyone whose stop it runs through on from there
+    set({
+      trains: state.trains.map(t => t.id === trainId ? { ...t, isExpress } : t),
+      ...recordAction(state, { type: 'setTrainExpress', trainId, isExpress })
+    })
+  },
+
+  toggleExpressSkip: (routeId, stationId) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    if (!route) return
+    const isSkipped = route.expressSkips.includes(stationId)
+    if (!isSkipped && !canExpressSkipStation(route, stationId)) {
+      refuseAction('Express trains always call at the ends of the line')
+      return
+    }
+
+    set({
+      routes: state.routes.map(r => r.id === routeId
+        ? { ...r, expressSkips: isSkipped ? r.expressSkips.filter(id => id !== stationId) : [...r.expressSkips, stationId] }
+        : r
+      ),
+      ...recordAction(state, { type: 'toggleExpressSkip', routeId, stationId })
+    })
+
+    // Express services call at different stations now
+    get().updatePassengerRoutingNetwork()
+  },
+
+  setHeadwayControl: (routeId, headwayControl) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    if (!route || route.headwayControl === headwayControl) return
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? { ...r, headwayControl } : r),
+      ...recordAction(state, { type: 'setHeadwayControl', routeId, headwayControl })
+    })
+  },
+
+  setHeadwayTarget: (routeId, target) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const route = state.routes.find(r => r.id === routeId)
+    const headwayTarget = clampHeadwayTarget(target)
+    if (!route || route.headwayTarget === headwayTarget) return
+
+    set({
+      routes: state.routes.map(r => r.id === routeId ? { ...r, headwayTarget } : r),
+      ...recordAction(state, { type: 'setHeadwayTarget', routeId, headwayTarget })
+    })
+  },
+
+  addCarriage: (trainId) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const train = state.trains.find(t => t.id === trainId)
+    if (!train || train.carriages >= TRAIN_CONFIG.maxCarriages) return
+    if (state.inventory.carriages <= 0) {
+      refuseAction('No carriages left in the inventory')
+      return
     }
+
+    set({
+      trains: state.trains.map(t => t.id === trainId
+        ? { ...t, carriages: t.carriages + 1, capacity: t.capacity + TRAIN_CONFIG.carriageCapacity }
+        : t
+      ),
+      inventory: adjustInventory(state.inventory, 'carriages', -1),
+      ...recordAction(state, { type: 'addCarriage', trainId })
+    })
+  },
+
+  removeCarriage: (trainId) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const train = state.trains.find(t => t.id === trainId)
+    const route = train && state.routes.find(r => r.id === train.routeId)
+    if (!train || !route || train.carriages <= 0) return
+
+    // Riders who no longer fit get off at the nearest station
+    const capacity = train.capacity - TRAIN_CONFIG.carriageCapacity
+    const remaining = train.passengers.slice(0, capacity)
+    const unloaded = train.passengers.slice(capacity)
+
+    set({
+      trains: state.trains.map(t => t.id === trainId
+        ? { ...t, carriages: t.carriages - 1, capacity, passengers: remaining }
+        : t
+      ),
+      stations: returnRidersToStations(state.stations, route, [{ train, passengers: unloaded }], state.elapsedTime),
+      inventory: adjustInventory(state.inventory, 'carriages', 1),
+      ...recordAction(state, { type: 'removeCarriage', trainId })
+    })
   },
 
-  addPassengerToStation: (stationId) => {
+  buildInterchange: (stationId) => {
     const state = get()
-    const now = Date.now()
+    if (isBlockedByPlayback(state)) return
+
+    const station = state.stations.find(s => s.id === stationId)
+    if (!station || station.isInterchange) return
+    if (state.inventory.interchanges <= 0) {
+      refuseAction('No interchanges left in the inventory')
+      return
+    }
+
+    set({
+      // Re-check the overload timer against the raised capacity
+      stations: state.stations.map(s => s.id === stationId
+        ? updateStationPassengers(
+            { ...s, isInterchange: true, capacity: s.capacity * RESOURCE_CONFIG.interchangeCapacityMultiplier },
+            s.passengers,
+            state.elapsedTime
+          )
+        : s
+      ),
+      inventory: adjustInventory(state.inventory, 'interchanges', -1),
+      ...recordAction(state, { type: 'buildInterchange', stationId })
+    })
+  },
+
+  chooseReward: (resource) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+    if (!state.rewardChoice?.includes(resource)) return
+
+    // Taking the reward lets the simulation carry on into the new week
+    set({
+      inventory: adjustInventory(state.inventory, resource, RESOURCE_CONFIG.rewardAmounts[resource]),
+      rewardChoice: null,
+      ...recordAction(state, { type: 'chooseReward', resource })
+    })
+  },
+
+  advanceSimulation: (dt) => {
+    const state = get()
+    if (!state.isPlaying || state.isGameOver || state.rewardChoice) return
+
+    const next = stepSimulation(state, dt)
+    set({
+      stations: next.stations,
+      trains: next.trains,
+      score: next.score,
+      scoreBreakdown: next.scoreBreakdown,
+      rngState: next.rngState,
+      elapsedTime: next.elapsedTime,
+      tick: next.tick,
+      nextEntityId: next.nextEntityId,
+      pendingStationSpawn: next.pendingStationSpawn,
+      inventory: next.inventory,
+      week: next.week,
+      rewardChoice: next.rewardChoice,
+      reputation: next.reputation,
+      abandonedPassengers: next.abandonedPassengers,
+      money: next.money,
+      ledger: next.ledger,
+      lineHeadways: next.lineHeadways,
+      disruptions: next.disruptions,
+      disruptionFeed: next.disruptionFeed,
+      specialEvents: next.specialEvents,
+      passengerRoutingNetwork: next.passengerRoutingNetwork
+    })
+
+    if (next.isGameOver) {
+      get().triggerGameOver(next.gameOverReason ?? 'A station was overloaded for too long!')
+    }
+  },
+
+  addPassengerToStation: (stationId, destinationType) => {
+    const state = get()
+    if (isBlockedByPlayback(state)) return
+
+    const origin = state.stations.find(s => s.id === stationId)
+    if (!origin) return
+
+    // Without an explicit destination, request any other station type present in the city
+    const random = createSeededRandom(state.rngState)
+    const passenger = createPassenger(`passenger-${state.nextEntityId}`, origin, state.stations, state.elapsedTime, random, destinationType)
+    if (!passenger) return // Nowhere to travel to yet
     
     set({
-      stations: state.stations.map(station => {
-        if (station.id === stationId) {
-          const newCount = station.passengerCount + 1
-          const wasOverloaded = station.passengerCount >= 20
-          const isNowOverloaded = newCount >= 20
-          
-          return { 
-            ...station, 
-            passengerCount: newCount,
-            overloadedSince: !wasOverloaded && isNowOverloaded ? now : station.overloadedSince
-          }
-        }
-        return station
-      })
+      stations: state.stations.map(station => station.id === stationId
+        ? updateStationPassengers(station, [...station.passengers, passenger], state.elapsedTime)
+        : station
+      ),
+      rngState: random.getState(),
+      nextEntityId: state.nextEntityId + 1,
+      ...recordAction(state, { type: 'addPassengerToStation', stationId, destinationType })
     })
   },
 
-  resetGame: () => {
+  resetGame: (options = {}) => {
     const state = get();
     
     // Properly clear complex network data structures before resetting
@@ -351,23 +1070,26 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     }
     
     set({
-      stations: [],
-      routes: [],
-      trains: [],
-      score: 0,
+      ...createNewGame(
+        options.seed ?? createRandomSeed(),
+        options.difficulty ?? state.difficulty,
+        options.mode ?? state.mode,
+        options.blockSignalling ?? state.blockSignalling
+      ),
       isPlaying: true,
       gameSpeed: 1,
       selectedStationId: null,
       isGameOver: false,
       gameOverReason: null,
       gameOverStats: null,
-      gameStartTime: Date.now(),
-      lastStationSpawnTime: Date.now(),
       // Now safely set to null after clearing
       trainMovementNetwork: null,
       visualRouteNetwork: null,
+      passengerRoutingNetwork: null,
       // Keep visualization preference
-      useParallelVisualization: true
+      useParallelVisualization: true,
+      playback: null,
+      refusal: null
     })
   },
 
@@ -400,34 +1122,59 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     
     // Reset all game state
     set({
-      stations: [],
-      routes: [],
-      trains: [],
-      score: 0,
+      ...createNewGame(createRandomSeed(), state.difficulty, state.mode, state.blockSignalling),
       isPlaying: true,
       gameSpeed: 1,
       selectedStationId: null,
       isGameOver: false,
       gameOverReason: null,
       gameOverStats: null,
-      gameStartTime: Date.now(),
-      lastStationSpawnTime: Date.now(),
       trainMovementNetwork: null,
       visualRouteNetwork: null,
-      useParallelVisualization: state.useParallelVisualization // Keep visualization preference
+      passengerRoutingNetwork: null,
+      useParallelVisualization: state.useParallelVisualization, // Keep visualization preference
+      playback: null
     });
     
     // Force page reload to reinitialize with new city configuration
     window.location.reload();
   },
 
+  loadGame: (save) => {
+    set({
+      ...save.state,
+      isPlaying: true,
+      selectedStationId: null,
+      isGameOver: false,
+      gameOverReason: null,
+      gameOverStats: null,
+      trainMovementNetwork: null,
+      visualRouteNetwork: null,
+      passengerRoutingNetwork: null,
+      // Recording restarts from the loaded snapshot
+      replayLog: { start: save.state, actions: [] },
+      playback: null,
+      refusal: null
+    })
+
+    // Caches aren't saved - rebuild them from the loaded routes
+    get().updateTrainMovementNetwork()
+    get().updateVisualRouteNetwork()
+    get().updatePassengerRoutingNetwork()
+  },
+
   selectStation: (stationId) => {
-    set({ selectedStationId: stationId })
+    const state = get()
+    // Selecting stations stays available during playback for inspection, it just isn't recorded
+    set({
+      selectedStationId: stationId,
+      ...recordAction(state, { type: 'selectStation', stationId })
+    })
   },
 
   triggerGameOver: (reason) => {
     const state = get()
-    const gameTime = Math.floor((Date.now() - state.gameStartTime) / 1000) // in seconds
+    const gameTime = Math.floor(state.elapsedTime / 1000) // in seconds of simulated time
     
     set({
       isPlaying: false,
@@ -437,7 +1184,10 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
         finalScore: state.score,
         totalStations: state.stations.length,
         totalRoutes: state.routes.length,
-        gameTime: gameTime
+        gameTime: gameTime,
+        reputation: state.reputation,
+        abandonedPassengers: state.abandonedPassengers,
+        scoreBreakdown: state.scoreBreakdown
       }
     })
   },
@@ -472,8 +1222,10 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     
     // Calculate visual route network for rendering
     try {
-      const parallelData = calculateParallelRouteVisualization(state.routes, state.stations)
-      const visualNetwork = generateVisualRouteNetwork(state.routes, state.stations, parallelData)
+      // Branches are drawn from their junction, so trunks shared by several patterns form one band
+      const tracks = state.routes.flatMap(getRouteTracks)
+      const parallelData = calculateParallelRouteVisualization(tracks, state.stations)
+      const visualNetwork = generateVisualRouteNetwork(tracks, state.stations, parallelData)
       set({ visualRouteNetwork: visualNetwork })
     } catch (error) {
       console.error('Failed to calculate visual route network:', error)
@@ -481,8 +1233,188 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     }
   },
 
+  updatePassengerRoutingNetwork: () => {
+    const state = get()
+    
+    // Only calculate if we have routes
+    if (state.routes.length === 0) {
+      set({ passengerRoutingNetwork: null })
+      return
+    }
+    
+    // Calculate shortest-transfer paths over the train movement network
+    try {
+      const routingNetwork = calculatePassengerRoutingNetwork(state.routes, state.stations, state.trainMovementNetwork, state.disruptions)
+      set({ passengerRoutingNetwork: routingNetwork })
+    } catch (error) {
+      console.error('Failed to calculate passenger routing network:', error)
+      set({ passengerRoutingNetwork: null })
+    }
+  },
+
   toggleVisualization: () => {
     const state = get()
     set({ useParallelVisualization: !state.useParallelVisualization })
+  },
+
+  setWaterSource: (waterSource) => {
+    set({ waterSource })
+  },
+
+  startPlayback: (replay) => {
+    const state = get()
+    // Keep the game being played to go back to - restarting playback to seek keeps the one it already has
+    const interruptedGame = state.playback
+      ? state.playback.interruptedGame
+      : !state.isGameOver && state.stations.length > 0
+        ? { state: pickSavedGameState(state), replayLog: state.replayLog }
+        : null
+    get().loadGame({ version: SAVE_VERSION, cityId: replay.cityId, savedAt: '', state: replay.start })
+    set({ playback: { replay, isPaused: false, nextActionIndex: 0, interruptedGame } })
+  },
+
+  stepPlayback: () => {
+    const state = get()
+    const playback = state.playback
+    if (!playback || state.isGameOver) return
+
+    // Apply the actions recorded at this tick, then advance by one fixed step like the original game
+    const { actions, endTick } = playback.replay
+    let nextActionIndex = playback.nextActionIndex
+    isApplyingReplayAction = true
+    try {
+      while (nextActionIndex < actions.length && actions[nextActionIndex].tick <= state.tick) {
+        applyReplayAction(get(), actions[nextActionIndex])
+        nextActionIndex++
+      }
+    } finally {
+      isApplyingReplayAction = false
+    }
+
+    if (state.tick >= endTick) {
+      set({ playback: { ...playback, nextActionIndex, isPaused: true } }) // End of the recording
+      return
+    }
+
+    set({ playback: { ...playback, nextActionIndex } })
+    get().advanceSimulation(SIMULATION_STEP_MS)
+  },
+
+  seekPlayback: (tick) => {
+    const playback = get().playback
+    if (!playback) return
+
+    const targetTick = Math.max(0, Math.min(tick, playback.replay.endTick))
+    // The simulation only runs forwards, so seeking back restarts from the beginning
+    if (targetTick < get().tick) {
+      get().startPlayback(playback.replay)
+    }
+    while (get().tick < targetTick && !get().isGameOver) {
+      const tickBefore = get().tick
+      get().stepPlayback()
+      if (get().tick === tickBefore) break // Waiting on a reward the recording never chose
+    }
+    set({ playback: { ...get().playback!, isPaused: playback.isPaused } })
+  },
+
+  setPlaybackPaused: (isPaused) => {
+    const playback = get().playback
+    if (!playback) return
+    set({ playback: { ...playback, isPaused } })
+  },
+
+  stopPlayback: () => {
+    const playback = get().playback
+    if (!playback?.interruptedGame) {
+      get().resetGame()
+      return
+    }
+    // Back to the game the replay interrupted, still recording from where it started
+    const { state, replayLog } = playback.interruptedGame
+    get().loadGame({ version: SAVE_VERSION, cityId: playback.replay.cityId, savedAt: '', state })
+    set({ replayLog })
+  }
+}))
+
+// Re-apply a recorded player action through the regular store actions
+function applyReplayAction(actions: GameActions, action: ReplayAction) {
+  switch (action.type) {
+    case 'addStation':
+      // Position and density were resolved against the map when recorded, so no bounds or map queries are needed
+      actions.addStation(
+        { southwest: action.position, northeast: action.position },
+        action.position,
+        undefined,
+        () => action.buildingDensity,
+        action.isInitialStation,
+        action.name
+      )
+      break
+    case 'moveStation':
+      actions.moveStation(action.stationId, action.position, action.routeTunnels)
+      break
+    case 'addRoute':
+      actions.addRoute(action.stationIds, action.color, action.tunnels)
+      break
+    case 'extendRoute':
+      actions.extendRoute(action.routeId, action.stationId, action.atEnd, action.tunnels)
+      break
+    case 'removeRoute':
+      actions.removeRoute(action.routeId)
+      break
+    case 'removeStationFromRoute':
+      actions.removeStationFromRoute(action.routeId, action.stationId, action.tunnels)
+      break
+    case 'insertStationIntoRoute':
+      actions.insertStationIntoRoute(action.routeId, action.stationId, action.index, action.tunnels)
+      break
+    case 'addBranch':
+      actions.addBranch(action.routeId, action.junctionStationId, action.stationId, action.tunnels)
+      break
+    case 'extendBranch':
+      actions.extendBranch(action.routeId, action.branchId, action.stationId, action.tunnels)
+      break
+    case 'trimBranch':
+      actions.trimBranch(action.routeId, action.branchId, action.tunnels)
+      break
+    case 'removeBranch':
+      actions.removeBranch(action.routeId, action.branchId, action.tunnels)
+      break
+    case 'addTrain':
+      actions.addTrain(action.routeId, action.branchId)
+      break
+    case 'removeTrain':
+      actions.removeTrain(action.trainId)
+      break
+    case 'setTrainExpress':
+      actions.setTrainExpress(action.trainId, action.isExpress)
+      break
+    case 'toggleExpressSkip':
+      actions.toggleExpressSkip(action.routeId, action.stationId)
+      break
+    case 'setHeadwayControl':
+      actions.setHeadwayControl(action.routeId, action.headwayControl)
+      break
+    case 'setHeadwayTarget':
+      actions.setHeadwayTarget(action.routeId, action.headwayTarget)
+      break
+    case 'addCarriage':
+      actions.addCarriage(action.trainId)
+      break
+    case 'removeCarriage':
+      actions.removeCarriage(action.trainId)
+      break
+    case 'buildInterchange':
+      actions.buildInterchange(action.stationId)
+      break
+    case 'chooseReward':
+      actions.chooseReward(action.resource)
+      break
+    case 'selectStation':
+      actions.selectStation(action.stationId)
+      break
+    case 'addPassengerToStation':
+      actions.addPassengerToStation(action.stationId, action.destinationType)
+      break
   }
-}))
\ No newline at end of file
+}
\ No newline at end of file
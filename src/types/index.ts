@@ -1,5 +1,8 @@
 import { type TrainMovementNetwork } from '../utils/routeNetworkCalculator'
 import { type VisualRouteNetwork } from '../utils/parallelRouteVisualizer'
+import { type PassengerRoutingNetwork } from '../utils/passengerRouting'
+import { type ReplayLog, type ReplayPlayback } from '../utils/replay'
+import { type WaterSource } from '../utils/waterCrossings'
 export interface Position {
   x: number;
   y: number;
@@ -10,49 +13,192 @@ export interface LngLat {
   lat: number;
 }
 
+// Station shapes - basic shapes are common, the rest are rare special types
+export type StationType = 'circle' | 'triangle' | 'square' | 'pentagon' | 'star' | 'diamond'
+
 export interface Station {
   id: string
   position: LngLat
   color: string
-  passengerCount: number // Simple count instead of complex array
-  overloadedSince?: number // Timestamp when station first reached 20+ passengers
+  type: StationType // Shape shown on the map and requested by passengers
+  passengers: Passenger[] // Passengers waiting on the platform
+  capacity: number // Waiting passengers at which the station is overloaded and its countdown starts
+  overloadedSince?: number // Simulated time (ms) when station first reached its capacity
   buildingDensity?: number // Building count in area (0-1 normalized)
   name?: string // Optional station name from suburb feature
+  isInterchange?: boolean // Upgraded with an interchange - raises its capacity
+  venue?: VenueType // Special station drawing extra demand, see utils/specialEvents.ts
+}
+
+// Special stations: stadiums and concert halls host timed events, airports draw steady long-distance trips
+export type VenueType = 'stadium' | 'concertHall' | 'airport'
+
+// Venues whose demand comes in bursts around their events
+export type EventVenueType = Exclude<VenueType, 'airport'>
+
+// A timed event at a venue - announced when scheduled, and drawing passengers from across the city
+// to the venue while it runs
+export interface SpecialEvent {
+  id: string
+  stationId: string
+  venue: EventVenueType
+  announcedAt: number // Simulated time (ms)
+  startTime: number // Simulated time (ms) passengers start heading for the venue
+  endTime: number // Simulated time (ms)
+  attendance: number // Passengers the event draws over its whole run
 }
 
 
 export interface Route {
   id: string
   color: string
-  stations: string[]
+  stations: string[] // Main stations, run by trains without a branch
+  branches: RouteBranch[] // Branches sharing the line's colour and its stations up to their junction
+  expressSkips: string[] // Stations the line's express trains run through without stopping
+  headwayControl: HeadwayControl // How the line keeps its trains spaced
+  headwayTarget: number // Interval (ms) the line aims for between trains
+  tunnels: number // Station-to-station segments crossing water, each using a tunnel
+}
+
+// A branch leaves its line's main stations at a junction and carries on to its own stations.
+// Its trains run the main stations up to the junction and then the branch's - see utils/servicePatterns.ts
+export interface RouteBranch {
+  id: string
+  junctionIndex: number // Index in the line's main stations where the branch leaves
+  stations: string[] // Stations beyond the junction, in order
+}
+
+// Spacing of a line's trains, see utils/headway.ts:
+// off - trains only hold when they catch up on the train ahead
+// headway - trains hold at stations until the target interval has passed since the last train left
+// timetable - trains leave the ends of the line on fixed departure slots, one slot per target interval
+export type HeadwayControl = 'off' | 'headway' | 'timetable'
+
+// Departures logged for a line, from which its measured headway is worked out
+export interface LineHeadway {
+  lastDepartures: Record<string, number> // Platform key -> simulated time (ms) the last train left it
+  recentIntervals: number[] // Latest gaps (ms) between successive trains leaving the same platform
 }
 
 export interface Train {
   id: string
   routeId: string
+  branchId: string | null // Branch whose service pattern the train runs - null for the line's main stations
+  isExpress: boolean // Runs through the line's express-skipped stations without stopping
   position: number
   direction: 1 | -1
-  passengerCount: number // Simple count
-  capacity: number
-  speedKmh: number
-  waitTime: number // Time to wait at station (in game loops)
+  passengers: Passenger[] // Passengers currently on board
+  capacity: number // Total seats, including attached carriages
+  carriages: number // Extra carriages attached to the locomotive
+  speedKmh: number // Top speed
+  speed: number // Current speed along the line (m/s)
+  waitTime: number // Remaining dwell time at the current station (ms)
   lastStationVisited: number // Index of last station where passengers were exchanged
 }
 
 
 export interface Passenger {
   id: string;
-  origin: string;
-  destination: string;
-  spawnTime: number;
-  color: string;
+  origin: string; // Station ID where the passenger spawned
+  destinationType: StationType; // Any station of this type satisfies the passenger
+  destinationStationId?: string; // Only this station satisfies the passenger - set for event-goers
+  spawnTime: number; // Simulated time (ms)
+  transfers?: number; // Times the passenger has changed trains - missing until the first change
+  patience: number; // Time (ms) left before the passenger gives up, see utils/reputation.ts
+}
+
+// Service disruptions, see utils/disruptions.ts:
+// breakdown - a train stops where it is until it is repaired
+// stationClosure - trains run through the station without stopping and no passengers arrive there
+// signalFailure - the segment between two stations is suspended and trains wait before entering it
+export type DisruptionType = 'breakdown' | 'stationClosure' | 'signalFailure'
+
+export interface Disruption {
+  id: string
+  type: DisruptionType
+  targetId: string // Train ID, station ID, or segment key for a signal failure
+  startTime: number // Simulated time (ms)
+  endTime: number // Simulated time (ms) the disruption clears
+}
+
+// Entry in the disruption feed shown to the player
+export interface DisruptionEvent {
+  id: string
+  disruptionType: DisruptionType
+  time: number // Simulated time (ms)
+  message: string
+  isCleared: boolean // Reports the end of a disruption rather than its start
 }
 
+// What the score rewards, see utils/scoring.ts
+export type ScoreComponent = 'deliveries' | 'distance' | 'efficiency' | 'transfers'
+
+export interface ScoreBreakdown {
+  points: Record<ScoreComponent, number> // Adds up to the score
+  delivered: number // Passengers delivered
+  passengerDistance: number // Straight-line metres from origin to destination, over all delivered passengers
+  journeyTime: number // Simulated time (ms) delivered passengers spent travelling, waiting included
+  transfers: number // Changes of train made by delivered passengers
+}
+
+// Money coming in and going out, see utils/economy.ts
+export type LedgerCategory = 'fares' | 'construction' | 'operating'
+
+export type LedgerTotals = Record<LedgerCategory, number> // Amounts are all positive - the category says which way they go
+
+export interface Ledger {
+  thisWeek: LedgerTotals
+  lastWeek: LedgerTotals | null // The last completed week, including its running costs
+  total: LedgerTotals
+}
+
+export type Difficulty = 'easy' | 'normal' | 'hard'
+
+// How forgiving the overload rule is, see utils/overload.ts
+export interface OverloadSettings {
+  stationCapacity: number // Capacity of a new station
+  gracePeriod: number // Time (ms) a station may stay at capacity before the game ends
+  warningRatio: number // Share of capacity at which a station shows as distressed
+}
+
+export type GameMode = 'normal' | 'endless' | 'extreme' | 'creative'
+
+// Ruleset of a game mode, see utils/gameModes.ts
+export interface GameModeRules {
+  label: string
+  description: string
+  passengerSpawnMultiplier: number // Scales the base passenger spawn rate
+  disruptionFrequency: number // Scales the base disruption rate - 0 keeps the network perfectly reliable
+  stationSpawning: boolean // New stations appear over time
+  canFail: boolean // Overloaded stations end the game
+  canChangeLines: boolean // Lines can be shortened, re-routed or removed once placed (extending is always allowed)
+  canPlaceStations: boolean // Stations can be placed and moved by clicking the map
+  weeklyRewards: boolean
+  isRanked: boolean // Scores go into the high score table
+  initialInventory: Inventory
+  startingFunds: number // Money to build with at the start of a game
+}
+
+// Resources available to spend - used ones are returned when lines, trains or carriages are removed
+export interface Inventory {
+  lines: number
+  locomotives: number
+  carriages: number
+  tunnels: number
+  interchanges: number
+}
+
+export type ResourceType = keyof Inventory
+
+// Locomotives arrive every week on their own; the rest are offered as a choice
+export type RewardResource = Exclude<ResourceType, 'locomotives'>
+
 export interface GameState {
   stations: Station[]
   routes: Route[]
   trains: Train[]
   score: number
+  scoreBreakdown: ScoreBreakdown
   isPlaying: boolean
   gameSpeed: number
   selectedStationId: string | null
@@ -63,12 +209,82 @@ export interface GameState {
     totalStations: number
     totalRoutes: number
     gameTime: number
+    reputation: number
+    abandonedPassengers: number
+    scoreBreakdown: ScoreBreakdown
   } | null
-  gameStartTime: number
-  lastStationSpawnTime: number
+  // Deterministic simulation - simulated clock and seeded RNG, see utils/simulation.ts
+  seed: number
+  rngState: number
+  elapsedTime: number // Simulated time since the game started (ms)
+  tick: number
+  nextEntityId: number // Counter for reproducible station/route/train/passenger IDs
+  lastStationSpawnTime: number // Simulated time (ms)
+  pendingStationSpawn: boolean // Set by the simulation, cleared once the UI has placed the station
+  difficulty: Difficulty
+  mode: GameMode
+  blockSignalling: boolean // Realism option - trains wait for a clear block on track several lines share
+  // Resource economy - see utils/resources.ts
+  inventory: Inventory
+  week: number // Weeks of simulated time completed
+  rewardChoice: RewardResource[] | null // Upgrades offered this week; the simulation waits until one is chosen
+  // Passenger patience - see utils/reputation.ts
+  reputation: number // City-wide opinion of the network (0-100), scaling demand
+  abandonedPassengers: number // Passengers who gave up this game
+  // Money economy - see utils/economy.ts
+  money: number // Balance - running costs can take it below zero, but only so far before bankruptcy
+  ledger: Ledger
+  lineHeadways: Record<string, LineHeadway> // Route ID -> departures logged by the simulation
+  // Service disruptions - see utils/disruptions.ts
+  disruptions: Disruption[] // Currently in force
+  disruptionFeed: DisruptionEvent[] // Latest events, newest first
+  specialEvents: SpecialEvent[] // Announced and running events at venues - see utils/specialEvents.ts
   // Dual caching system - completely separate networks
   trainMovementNetwork: TrainMovementNetwork | null
   visualRouteNetwork: VisualRouteNetwork | null
+  // Shortest-transfer passenger routing, rebuilt whenever the network changes
+  passengerRoutingNetwork: PassengerRoutingNetwork | null
+  // Water polygons from the map's loaded vector tiles, used to detect lines crossing water
+  waterSource: WaterSource | null
   // Visualization toggle
   useParallelVisualization: boolean
+  // Replay recording of the current game, and playback of a loaded replay (null when playing normally)
+  replayLog: ReplayLog
+  playback: ReplayPlayback | null
+  // Why the player's last change was refused - a new object each time, so the UI shows repeats too
+  refusal: { message: string } | null
 }
+
+// The part of the game state the simulation step reads and advances
+export type SimulationState = Pick<GameState,
+  | 'stations'
+  | 'routes'
+  | 'trains'
+  | 'score'
+  | 'scoreBreakdown'
+  | 'isGameOver'
+  | 'gameOverReason'
+  | 'seed'
+  | 'rngState'
+  | 'elapsedTime'
+  | 'tick'
+  | 'nextEntityId'
+  | 'lastStationSpawnTime'
+  | 'pendingStationSpawn'
+  | 'difficulty'
+  | 'mode'
+  | 'blockSignalling'
+  | 'inventory'
+  | 'week'
+  | 'rewardChoice'
+  | 'reputation'
+  | 'abandonedPassengers'
+  | 'money'
+  | 'ledger'
+  | 'lineHeadways'
+  | 'disruptions'
+  | 'disruptionFeed'
+  | 'specialEvents'
+  | 'trainMovementNetwork'
+  | 'passengerRoutingNetwork'
+>
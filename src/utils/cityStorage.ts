@@ -38,7 +38,8 @@ export const getCityById = (id: string): City | undefined => {
  */
 export const getCurrentCity = (): City => {
   try {
-    const savedCityId = localStorage.getItem(STORAGE_KEY);
+    // Outside a browser, as in the unit tests, nothing has been saved
+    const savedCityId = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
     if (savedCityId) {
       const city = getCityById(savedCityId);
       if (city) {
@@ -0,0 +1,60 @@
+import { CLOCK_CONFIG } from '../config/gameConfig'
+
+// Simulated clock and calendar.
+// Everything here is derived from the simulation's elapsed time, so the time of day, the day
+// of the week and the demand it drives replay exactly like the rest of the simulation.
+
+export const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export interface GameClock {
+  day: number // Days since the calendar began
+  week: number // Weeks since the calendar began - the first week is cut short by the start hour
+  dayOfWeek: number // 0 = Monday
+  hour: number // Fractional hour of the day, 0 to 24
+}
+
+const HOUR_DURATION = CLOCK_CONFIG.dayDuration / 24
+
+export function getGameClock(elapsedTime: number): GameClock {
+  const calendarTime = CLOCK_CONFIG.startHour * HOUR_DURATION + elapsedTime
+  const day = Math.floor(calendarTime / CLOCK_CONFIG.dayDuration)
+  return {
+    day,
+    week: Math.floor(day / CLOCK_CONFIG.daysPerWeek),
+    dayOfWeek: day % CLOCK_CONFIG.daysPerWeek,
+    hour: (calendarTime % CLOCK_CONFIG.dayDuration) / HOUR_DURATION
+  }
+}
+
+// Clock face time, e.g. "08:30"
+export function formatClockTime(clock: GameClock): string {
+  const hours = Math.floor(clock.hour)
+  const minutes = Math.floor((clock.hour - hours) * 60)
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`
+}
+
+// Passenger demand at an hour of the day, relative to the base spawn rate
+export function getDemandMultiplier(hour: number): number {
+  const curve = CLOCK_CONFIG.demandCurve
+  for (let i = 1; i < curve.length; i++) {
+    const [toHour, toValue] = curve[i]
+    if (hour <= toHour) {
+      const [fromHour, fromValue] = curve[i - 1]
+      return fromValue + (toValue - fromValue) * (hour - fromHour) / (toHour - fromHour)
+    }
+  }
+  return curve[curve.length - 1][1]
+}
+
+// How light it is, from 0 at night to 1 in full daylight, fading over the twilight hours
+export function getDaylight(hour: number): number {
+  const { sunriseHour, sunsetHour, twilightHours } = CLOCK_CONFIG
+  const sinceSunrise = (hour - sunriseHour + twilightHours / 2) / twilightHours
+  const untilSunset = (sunsetHour - hour + twilightHours / 2) / twilightHours
+  return Math.max(0, Math.min(1, sinceSunrise, untilSunset))
+}
+
+// True when the demand at this hour is above the normal daytime level
+export function isRushHour(hour: number): boolean {
+  return getDemandMultiplier(hour) >= 1.4
+}
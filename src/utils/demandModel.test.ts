@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { DEMAND_CONFIG } from '../config/gameConfig'
+import type { Station, StationType } from '../types'
+import { calculateODMatrix, getDistanceDecay, getStationMass, getTripRate, pickTripDestination } from './demandModel'
+
+type DemandStation = Parameters<typeof calculateODMatrix>[0][number]
+
+// Stations along the equator, `km` kilometres east of the origin
+function station(id: string, type: StationType, km: number, buildingDensity = 0.5, venue?: Station['venue']): DemandStation {
+  return { id, type, position: { lng: km / 111.32, lat: 0 }, buildingDensity, venue }
+}
+
+describe('calculateODMatrix', () => {
+  it('sends more trips to denser stations', () => {
+    const matrix = calculateODMatrix([
+      station('origin', 'circle', 0),
+      station('dense', 'triangle', 1, 0.9),
+      station('sparse', 'triangle', -1, 0.1)
+    ])
+    expect(matrix.trips[0][1]).toBeGreaterThan(matrix.trips[0][2])
+  })
+
+  it('sends more trips from denser stations', () => {
+    const matrix = calculateODMatrix([
+      station('dense', 'circle', 0, 0.9),
+      station('sparse', 'circle', 2, 0.1),
+      station('destination', 'triangle', 1)
+    ])
+    expect(getTripRate(matrix, 0)).toBeGreaterThan(getTripRate(matrix, 1))
+  })
+
+  it('sends fewer trips over longer distances', () => {
+    const matrix = calculateODMatrix([
+      station('origin', 'circle', 0),
+      station('near', 'triangle', 1),
+      station('far', 'triangle', -4)
+    ])
+    expect(matrix.trips[0][1]).toBeGreaterThan(matrix.trips[0][2])
+  })
+
+  it('exchanges no trips between stations of the same type', () => {
+    const matrix = calculateODMatrix([
+      station('a', 'circle', 0),
+      station('b', 'circle', 1),
+      station('c', 'triangle', 2)
+    ])
+    expect(matrix.trips[0][1]).toBe(0)
+    expect(matrix.trips[1][0]).toBe(0)
+    matrix.trips.forEach((row, i) => expect(row[i]).toBe(0))
+  })
+
+  it('spreads the city-wide trip budget over all pairs', () => {
+    const stations = [
+      station('a', 'circle', 0, 0.2),
+      station('b', 'triangle', 1, 0.8),
+      station('c', 'square', 3, 0.5)
+    ]
+    const matrix = calculateODMatrix(stations)
+    const totalTrips = stations.reduce((total, _, i) => total + getTripRate(matrix, i), 0)
+    const totalMass = stations.reduce((total, s) => total + getStationMass(s), 0)
+    expect(totalTrips).toBeCloseTo(DEMAND_CONFIG.tripsPerStation * totalMass)
+  })
+
+  it('lets airport trips reach further', () => {
+    const matrix = calculateODMatrix([
+      station('origin', 'circle', 0),
+      station('airport', 'triangle', 5, 0.5, 'airport'),
+      station('town', 'triangle', -5, 0.5)
+    ])
+    expect(matrix.trips[0][1]).toBeGreaterThan(matrix.trips[0][2])
+  })
+})
+
+describe('getDistanceDecay', () => {
+  it('halves trips at the distance scale and keeps falling', () => {
+    expect(getDistanceDecay(0)).toBe(1)
+    expect(getDistanceDecay(DEMAND_CONFIG.distanceScale)).toBeCloseTo(0.5)
+    expect(getDistanceDecay(DEMAND_CONFIG.distanceScale * 2)).toBeLessThan(0.5)
+  })
+})
+
+describe('pickTripDestination', () => {
+  const matrix = { stationIds: ['a', 'b', 'c'], trips: [[0, 1, 3], [0, 0, 0], [1, 1, 0]] }
+
+  it('picks destinations in proportion to their trips', () => {
+    expect(pickTripDestination(matrix, 0, () => 0)).toBe(1)
+    expect(pickTripDestination(matrix, 0, () => 0.2)).toBe(1)
+    expect(pickTripDestination(matrix, 0, () => 0.3)).toBe(2)
+    expect(pickTripDestination(matrix, 0, () => 0.999)).toBe(2)
+  })
+
+  it('returns null when nowhere attracts trips', () => {
+    expect(pickTripDestination(matrix, 1, () => 0.5)).toBeNull()
+  })
+})
@@ -0,0 +1,82 @@
+import { DEMAND_CONFIG, VENUE_CONFIG } from '../config/gameConfig'
+import { calculateDistance } from './coordinates'
+import type { Station } from '../types'
+
+// Gravity demand model - where new passengers come from and where they want to go.
+// Trips from station i to station j scale with both stations' mass (their building density) and
+// fall off with the distance between them:
+//   trips(i, j) = k * mass(i) * mass(j) / (1 + (distance / distanceScale) ^ distanceDecay)
+// k spreads a city-wide trip budget of tripsPerStation * total mass over all station pairs, so
+// adding stations redistributes demand rather than only piling it on. Stations of the same type
+// exchange no trips - a passenger is satisfied by any station of their destination type.
+// An airport pulls like a much denser station and its trips fall off over a longer distance.
+
+export type DemandModelParameters = typeof DEMAND_CONFIG
+
+// Origin-destination matrix: trips[i][j] is the expected number of passengers per game loop
+// interval starting at stationIds[i] and heading for stationIds[j], before time-of-day and mode scaling
+export interface OriginDestinationMatrix {
+  stationIds: string[]
+  trips: number[][]
+}
+
+type DemandStation = Pick<Station, 'id' | 'type' | 'position' | 'buildingDensity' | 'venue'>
+
+export function getStationMass(station: Pick<Station, 'buildingDensity' | 'venue'>, params: DemandModelParameters = DEMAND_CONFIG): number {
+  const density = station.buildingDensity ?? 0.5
+  const mass = params.minimumMass + (1 - params.minimumMass) * density
+  return station.venue === 'airport' ? mass * VENUE_CONFIG.airportMassMultiplier : mass
+}
+
+// Share of trips left after travelling a distance - half at distanceScale
+export function getDistanceDecay(
+  distanceMeters: number,
+  params: DemandModelParameters = DEMAND_CONFIG,
+  distanceScale: number = params.distanceScale
+): number {
+  return 1 / (1 + Math.pow(distanceMeters / distanceScale, params.distanceDecay))
+}
+
+export function calculateODMatrix(stations: DemandStation[], params: DemandModelParameters = DEMAND_CONFIG): OriginDestinationMatrix {
+  const masses = stations.map(station => getStationMass(station, params))
+  const attraction = stations.map((origin, i) => stations.map((destination, j) =>
+    origin.type === destination.type
+      ? 0
+      : masses[i] * masses[j] * getDistanceDecay(
+        calculateDistance(origin.position, destination.position),
+        params,
+        origin.venue === 'airport' || destination.venue === 'airport' ? VENUE_CONFIG.airportDistanceScale : params.distanceScale
+      )
+  ))
+
+  const totalAttraction = attraction.reduce((total, row) => total + row.reduce((sum, value) => sum + value, 0), 0)
+  const tripBudget = params.tripsPerStation * masses.reduce((total, mass) => total + mass, 0)
+  const scale = totalAttraction > 0 ? tripBudget / totalAttraction : 0
+
+  return {
+    stationIds: stations.map(station => station.id),
+    trips: attraction.map(row => row.map(value => value * scale))
+  }
+}
+
+// Passengers per game loop interval starting at a station, wherever they are going
+export function getTripRate(matrix: OriginDestinationMatrix, originIndex: number): number {
+  return (matrix.trips[originIndex] ?? []).reduce((total, trips) => total + trips, 0)
+}
+
+// Pick a destination for a trip from a station, weighted by the matrix row - null if nowhere attracts trips
+export function pickTripDestination(matrix: OriginDestinationMatrix, originIndex: number, random: () => number): number | null {
+  const row = matrix.trips[originIndex] ?? []
+  const total = row.reduce((sum, trips) => sum + trips, 0)
+  if (total <= 0) return null
+
+  let remaining = random() * total
+  let destination: number | null = null
+  for (let j = 0; j < row.length; j++) {
+    if (row[j] <= 0) continue
+    destination = j // Rounding can leave a sliver over at the end - it goes to the last destination
+    remaining -= row[j]
+    if (remaining < 0) break
+  }
+  return destination
+}
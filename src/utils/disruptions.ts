@@ -0,0 +1,211 @@
+import { DISRUPTION_CONFIG, GAME_CONFIG } from '../config/gameConfig'
+import type { Disruption, DisruptionEvent, DisruptionType, Route, Station, Train } from '../types'
+import { scaleProbability, type SeededRandom } from './random'
+import { isCircularRoute } from './routeEditing'
+import { getRouteTracks, getStationName, getTrainPatternStations, routeServesStation } from './servicePatterns'
+import { getSegmentAhead, getSegmentKey } from './signalling'
+
+// Service disruptions - random breakdowns, station closures and signal failures that test how
+// resilient the network is. They are drawn from the game's seeded generator, so saves and replays
+// see the same ones, and each clears by itself after a while:
+// - a broken-down train stands where it is, its riders losing patience
+// - trains run through a closed station without stopping and no passengers arrive there
+// - a signal failure suspends the segment between two stations, and trains wait at its signals
+// Passenger routing leaves out closed stations and suspended segments, so passengers reroute
+// round a disruption wherever the network offers another way.
+
+export const DISRUPTION_LABELS: Record<DisruptionType, string> = {
+  breakdown: 'Breakdown',
+  stationClosure: 'Station closed',
+  signalFailure: 'Signal failure'
+}
+
+export const DISRUPTION_ICONS: Record<DisruptionType, string> = {
+  breakdown: '🔧',
+  stationClosure: '⛔',
+  signalFailure: '🚦'
+}
+
+const DISRUPTION_TYPES = Object.keys(DISRUPTION_CONFIG.typeWeights) as DisruptionType[]
+
+function getTargets(disruptions: Disruption[], type: DisruptionType): Set<string> {
+  return new Set(disruptions.filter(d => d.type === type).map(d => d.targetId))
+}
+
+export function getBrokenDownTrains(disruptions: Disruption[]): Set<string> {
+  return getTargets(disruptions, 'breakdown')
+}
+
+export function getClosedStations(disruptions: Disruption[]): Set<string> {
+  return getTargets(disruptions, 'stationClosure')
+}
+
+// Segment keys (see utils/signalling.ts) suspended by a signal failure
+export function getSuspendedSegments(disruptions: Disruption[]): Set<string> {
+  return getTargets(disruptions, 'signalFailure')
+}
+
+// Whether the segment a train standing at a station runs along next is suspended
+export function isSegmentAheadSuspended(
+  suspendedSegments: Set<string>,
+  patternStations: string[],
+  stationIndex: number,
+  direction: 1 | -1,
+  isLoop: boolean
+): boolean {
+  if (suspendedSegments.size === 0) return false
+  const segment = getSegmentAhead(patternStations.length, stationIndex, direction, isLoop)
+  return !!segment && suspendedSegments.has(getSegmentKey(patternStations[segment.from], patternStations[segment.to]))
+}
+
+// Trains standing at a station, waiting for the segment ahead to reopen
+export function findTrainsAtFailedSignals(trains: Train[], routes: Route[], disruptions: Disruption[]): Set<string> {
+  const suspendedSegments = getSuspendedSegments(disruptions)
+  const held = new Set<string>()
+  for (const train of trains) {
+    const route = routes.find(r => r.id === train.routeId)
+    if (!route || !Number.isInteger(train.position)) continue
+    const patternStations = getTrainPatternStations(route, train)
+    if (isSegmentAheadSuspended(suspendedSegments, patternStations, train.position, train.direction, isCircularRoute(patternStations))) {
+      held.add(train.id)
+    }
+  }
+  return held
+}
+
+// Segments laid for the network's lines, each once
+function getNetworkSegments(routes: Route[]): string[] {
+  const segments = new Set<string>()
+  for (const track of routes.flatMap(getRouteTracks)) {
+    for (let i = 0; i < track.stations.length - 1; i++) {
+      segments.add(getSegmentKey(track.stations[i], track.stations[i + 1]))
+    }
+  }
+  return Array.from(segments)
+}
+
+// What each kind of disruption could hit next - anything not already disrupted
+function getCandidateTargets(
+  type: DisruptionType,
+  routes: Route[],
+  trains: Train[],
+  stations: Station[],
+  disruptions: Disruption[]
+): string[] {
+  const disrupted = getTargets(disruptions, type)
+  const candidates = type === 'breakdown'
+    ? trains.map(train => train.id)
+    : type === 'stationClosure'
+      ? stations.filter(station => routes.some(route => routeServesStation(route, station.id))).map(station => station.id)
+      : getNetworkSegments(routes)
+  return candidates.filter(id => !disrupted.has(id))
+}
+
+// Disruptions whose train, station or segment is still part of the network
+export function pruneDisruptions(disruptions: Disruption[], routes: Route[], trains: Train[], stations: Station[]): Disruption[] {
+  if (disruptions.length === 0) return disruptions
+  const segments = new Set(getNetworkSegments(routes))
+  return disruptions.filter(disruption => {
+    switch (disruption.type) {
+      case 'breakdown':
+        return trains.some(train => train.id === disruption.targetId)
+      case 'stationClosure':
+        return stations.some(station => station.id === disruption.targetId)
+      case 'signalFailure':
+        return segments.has(disruption.targetId)
+    }
+  })
+}
+
+// Maybe start a new disruption this step, scaled by the game mode's frequency
+export function rollDisruption(
+  id: string,
+  routes: Route[],
+  trains: Train[],
+  stations: Station[],
+  disruptions: Disruption[],
+  frequency: number,
+  now: number,
+  dt: number,
+  random: SeededRandom
+): Disruption | null {
+  if (frequency <= 0 || disruptions.length >= DISRUPTION_CONFIG.maxActive) return null
+  const probability = scaleProbability(DISRUPTION_CONFIG.baseProbability * frequency, dt, GAME_CONFIG.gameLoopInterval)
+  if (random.next() >= probability) return null
+
+  const options = DISRUPTION_TYPES
+    .map(type => ({ type, targets: getCandidateTargets(type, routes, trains, stations, disruptions) }))
+    .filter(option => option.targets.length > 0)
+  if (options.length === 0) return null
+
+  // Weighted choice of the kind of disruption, then an even choice of what it hits
+  const totalWeight = options.reduce((sum, option) => sum + DISRUPTION_CONFIG.typeWeights[option.type], 0)
+  let roll = random.next() * totalWeight
+  const option = options.find(o => (roll -= DISRUPTION_CONFIG.typeWeights[o.type]) < 0) ?? options[options.length - 1]
+  const targetId = option.targets[Math.floor(random.next() * option.targets.length)]
+  const [minDuration, maxDuration] = DISRUPTION_CONFIG.durations[option.type]
+
+  return {
+    id,
+    type: option.type,
+    targetId,
+    startTime: now,
+    endTime: now + minDuration + random.next() * (maxDuration - minDuration)
+  }
+}
+
+// Feed message for a disruption starting or clearing
+export function describeDisruption(
+  disruption: Disruption,
+  routes: Route[],
+  trains: Train[],
+  stations: Station[],
+  isCleared: boolean
+): string {
+  switch (disruption.type) {
+    case 'breakdown': {
+      const train = trains.find(t => t.id === disruption.targetId)
+      const route = train && routes.find(r => r.id === train.routeId)
+      const patternStations = train && route ? getTrainPatternStations(route, train) : []
+      const nearestStationId = train ? patternStations[Math.round(train.position)] : undefined
+      const place = nearestStationId ? ` near ${getStationName(stations, nearestStationId)}` : ''
+      return isCleared ? `Broken-down train${place} repaired` : `Train broken down${place}`
+    }
+    case 'stationClosure': {
+      const name = getStationName(stations, disruption.targetId)
+      return isCleared ? `${name} reopened` : `${name} closed - trains are running through`
+    }
+    case 'signalFailure': {
+      const [from, to] = disruption.targetId.split('~').map(stationId => getStationName(stations, stationId))
+      return isCleared ? `Signals repaired between ${from} and ${to}` : `Signal failure between ${from} and ${to} - no trains running`
+    }
+  }
+}
+
+export function createDisruptionEvent(
+  disruption: Disruption,
+  routes: Route[],
+  trains: Train[],
+  stations: Station[],
+  now: number,
+  isCleared: boolean
+): DisruptionEvent {
+  return {
+    id: `${disruption.id}${isCleared ? '/cleared' : ''}`,
+    disruptionType: disruption.type,
+    time: now,
+    message: describeDisruption(disruption, routes, trains, stations, isCleared),
+    isCleared
+  }
+}
+
+// Newest events first, keeping only the latest few
+export function addFeedEvents(feed: DisruptionEvent[], events: DisruptionEvent[]): DisruptionEvent[] {
+  if (events.length === 0) return feed
+  return [...[...events].reverse(), ...feed].slice(0, DISRUPTION_CONFIG.feedLength)
+}
+
+// Whether a change to the disruptions in force changes where passengers can travel
+export function affectsRouting(disruptions: Disruption[]): boolean {
+  return disruptions.some(disruption => disruption.type !== 'breakdown')
+}
@@ -0,0 +1,96 @@
+import { ECONOMY_CONFIG } from '../config/gameConfig'
+import type { Ledger, LedgerCategory, LedgerTotals, Route, Station, Train } from '../types'
+import { getMetroRouteLength } from './routeNetworkCalculator'
+import { getRouteTracks } from './servicePatterns'
+import { getSegmentKey } from './signalling'
+
+// Money economy - lines cost money to build and trains cost money to run, paid for by the
+// fares of delivered passengers:
+// - construction is charged per metre of new track as it is laid, measured along the line as drawn;
+//   track that is taken up again isn't refunded
+// - running costs are charged for every train and carriage at the end of each week
+// - the balance may run into an overdraft to pay running costs, but past its limit the network
+//   goes bankrupt and, in modes that can be lost, the game is over
+
+export const LEDGER_CATEGORIES: LedgerCategory[] = ['fares', 'construction', 'operating']
+
+export const LEDGER_LABELS: Record<LedgerCategory, string> = {
+  fares: 'Fares',
+  construction: 'Construction',
+  operating: 'Running costs'
+}
+
+export function isIncome(category: LedgerCategory): boolean {
+  return category === 'fares'
+}
+
+export function createLedgerTotals(): LedgerTotals {
+  return { fares: 0, construction: 0, operating: 0 }
+}
+
+export function createLedger(): Ledger {
+  return { thisWeek: createLedgerTotals(), lastWeek: null, total: createLedgerTotals() }
+}
+
+// Income less expenses
+export function getNetTotal(totals: LedgerTotals): number {
+  return LEDGER_CATEGORIES.reduce((net, category) => net + (isIncome(category) ? totals[category] : -totals[category]), 0)
+}
+
+export function recordTransaction(ledger: Ledger, category: LedgerCategory, amount: number): Ledger {
+  if (amount === 0) return ledger
+  return {
+    ...ledger,
+    thisWeek: { ...ledger.thisWeek, [category]: ledger.thisWeek[category] + amount },
+    total: { ...ledger.total, [category]: ledger.total[category] + amount }
+  }
+}
+
+// Start a new week's takings
+export function closeLedgerWeek(ledger: Ledger): Ledger {
+  return { ...ledger, thisWeek: createLedgerTotals(), lastWeek: ledger.thisWeek }
+}
+
+// Station-to-station segments laid for a line's tracks, keyed as in utils/signalling.ts
+export function getTrackSegments(route: Pick<Route, 'id' | 'stations' | 'branches'>): Map<string, [string, string]> {
+  const segments = new Map<string, [string, string]>()
+  for (const track of getRouteTracks(route)) {
+    for (let i = 0; i < track.stations.length - 1; i++) {
+      segments.set(getSegmentKey(track.stations[i], track.stations[i + 1]), [track.stations[i], track.stations[i + 1]])
+    }
+  }
+  return segments
+}
+
+// Cost of the new track a change to a line lays - segments it had before are already paid for
+export function getConstructionCost(
+  previous: Pick<Route, 'id' | 'stations' | 'branches'> | null,
+  updated: Pick<Route, 'id' | 'stations' | 'branches'>,
+  stations: Station[]
+): number {
+  const existing = previous ? getTrackSegments(previous) : new Map<string, [string, string]>()
+  let length = 0
+  for (const [key, [fromId, toId]] of getTrackSegments(updated)) {
+    if (existing.has(key)) continue
+    const from = stations.find(s => s.id === fromId)
+    const to = stations.find(s => s.id === toId)
+    if (from && to) length += getMetroRouteLength(from.position, to.position)
+  }
+  return Math.round(length * ECONOMY_CONFIG.constructionCostPerMetre)
+}
+
+// Weekly cost of running the network's trains
+export function getRunningCosts(trains: Train[]): number {
+  return trains.reduce(
+    (cost, train) => cost + ECONOMY_CONFIG.trainRunningCost + train.carriages * ECONOMY_CONFIG.carriageRunningCost,
+    0
+  )
+}
+
+export function isBankrupt(money: number): boolean {
+  return money < -ECONOMY_CONFIG.overdraftLimit
+}
+
+export function formatMoney(amount: number): string {
+  return `${amount < 0 ? '-' : ''}$${Math.abs(Math.round(amount)).toLocaleString('en-US')}`
+}
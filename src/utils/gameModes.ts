@@ -0,0 +1,12 @@
+import { GAME_MODE_CONFIG } from '../config/gameConfig'
+import type { GameMode, GameModeRules } from '../types'
+
+// Game modes - each supplies its own spawn rates, failure conditions and available actions.
+// The simulation and store actions consult the rules of the mode stored in the game state,
+// so saves and replays keep playing under the mode they were started in.
+
+export const GAME_MODES = Object.keys(GAME_MODE_CONFIG.modes) as GameMode[]
+
+export function getGameModeRules(mode: GameMode): GameModeRules {
+  return GAME_MODE_CONFIG.modes[mode] ?? GAME_MODE_CONFIG.modes[GAME_MODE_CONFIG.defaultMode]
+}
@@ -0,0 +1,66 @@
+import { HEADWAY_CONFIG } from '../config/gameConfig'
+import type { HeadwayControl, LineHeadway, Route } from '../types'
+
+// Headway control - keeping a line's trains evenly spaced.
+// Each departure is logged per platform (a station, in one direction, on one service pattern) and
+// the gap since the previous train left the same platform is a measured headway. Lines under
+// headway control hold trains at stations until their target has passed since the last departure;
+// timetabled lines only send trains from the ends of their patterns on fixed departure slots.
+
+export const HEADWAY_CONTROL_LABELS: Record<HeadwayControl, string> = {
+  off: 'Off',
+  headway: 'Even headway',
+  timetable: 'Timetable'
+}
+
+export function getPlatformKey(patternKey: string, stationId: string, direction: 1 | -1): string {
+  return `${patternKey}|${stationId}|${direction}`
+}
+
+// Log a train leaving a platform, keeping the latest intervals for the measured headway
+export function recordDeparture(headway: LineHeadway | undefined, platformKey: string, now: number): LineHeadway {
+  const lastDepartures = headway?.lastDepartures ?? {}
+  const recentIntervals = headway?.recentIntervals ?? []
+  const previous = lastDepartures[platformKey]
+  return {
+    lastDepartures: { ...lastDepartures, [platformKey]: now },
+    recentIntervals: previous === undefined
+      ? recentIntervals
+      : [...recentIntervals, now - previous].slice(-HEADWAY_CONFIG.sampleSize)
+  }
+}
+
+// Mean interval (ms) between the line's recent departures - null until a platform has seen two trains leave
+export function getMeasuredHeadway(headway: LineHeadway | undefined): number | null {
+  if (!headway || headway.recentIntervals.length === 0) return null
+  return headway.recentIntervals.reduce((total, interval) => total + interval, 0) / headway.recentIntervals.length
+}
+
+// Whether a train ready to leave a platform has to wait to keep the line's spacing.
+// Timetables only apply at the ends of a pattern, where each departure slot is used once.
+export function shouldHoldTrain(
+  route: Pick<Route, 'headwayControl' | 'headwayTarget'>,
+  headway: LineHeadway | undefined,
+  platformKey: string,
+  isPatternEnd: boolean,
+  now: number
+): boolean {
+  const lastDeparture = headway?.lastDepartures[platformKey]
+  if (lastDeparture === undefined) return false
+
+  switch (route.headwayControl) {
+    case 'headway':
+      return now - lastDeparture < route.headwayTarget
+    case 'timetable': {
+      const slotStart = Math.floor(now / route.headwayTarget) * route.headwayTarget
+      return isPatternEnd && lastDeparture >= slotStart
+    }
+    default:
+      return false
+  }
+}
+
+export function clampHeadwayTarget(target: number): number {
+  const stepped = Math.round(target / HEADWAY_CONFIG.targetStep) * HEADWAY_CONFIG.targetStep
+  return Math.min(HEADWAY_CONFIG.maxTarget, Math.max(HEADWAY_CONFIG.minTarget, stepped))
+}
@@ -0,0 +1,78 @@
+import type { Difficulty, GameMode, GameState } from '../types';
+
+export interface HighScore {
+  score: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  cityId: string;
+  gameTime: number; // Simulated seconds played
+  date: string; // ISO timestamp of when the game ended
+}
+
+const STORAGE_KEY = 'metromesh-high-scores';
+const MAX_SCORES_PER_MODE = 10;
+
+/**
+ * Read every recorded high score from localStorage
+ */
+export const loadHighScores = (): HighScore[] => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (data) {
+      const scores = JSON.parse(data);
+      if (Array.isArray(scores)) {
+        return scores as HighScore[];
+      }
+    }
+  } catch (error) {
+    console.warn('Error reading high scores from localStorage:', error);
+  }
+  return [];
+};
+
+/**
+ * Best scores for one game mode, highest first
+ */
+export const getHighScores = (mode: GameMode): HighScore[] => {
+  return loadHighScores()
+    .filter(entry => entry.mode === mode)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SCORES_PER_MODE);
+};
+
+/**
+ * High score entry for a game as it stands now
+ */
+export const createHighScore = (
+  state: Pick<GameState, 'score' | 'mode' | 'difficulty' | 'elapsedTime'>,
+  cityId: string
+): HighScore => {
+  return {
+    score: state.score,
+    mode: state.mode,
+    difficulty: state.difficulty,
+    cityId,
+    gameTime: Math.floor(state.elapsedTime / 1000),
+    date: new Date().toISOString()
+  };
+};
+
+/**
+ * Record a finished game, keeping only the best scores of each mode
+ */
+export const addHighScore = (entry: HighScore): void => {
+  const scores = [...loadHighScores(), entry];
+  const modes = new Set(scores.map(score => score.mode));
+  const kept = [...modes].flatMap(mode =>
+    scores
+      .filter(score => score.mode === mode)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SCORES_PER_MODE)
+  );
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.warn('Error saving high scores to localStorage:', error);
+  }
+};
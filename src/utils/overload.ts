@@ -0,0 +1,32 @@
+import { OVERLOAD_CONFIG } from '../config/gameConfig'
+import type { Difficulty, OverloadSettings, Station } from '../types'
+
+// Overload model.
+// Every station has a capacity. Once its waiting passengers reach it the station is
+// overloaded and a countdown of the difficulty's grace period starts; the game ends if
+// it runs out before the platform is cleared below capacity. Stations nearing capacity
+// show as distressed so players get a warning first.
+
+export function getOverloadSettings(difficulty: Difficulty): OverloadSettings {
+  return OVERLOAD_CONFIG.difficulties[difficulty] ?? OVERLOAD_CONFIG.difficulties[OVERLOAD_CONFIG.defaultDifficulty]
+}
+
+export function isStationOverloaded(station: Station): boolean {
+  return station.passengers.length >= station.capacity
+}
+
+export function isStationDistressed(station: Station, difficulty: Difficulty): boolean {
+  return station.passengers.length >= station.capacity * getOverloadSettings(difficulty).warningRatio
+}
+
+// Share of the grace period left before an overloaded station ends the game - 1 when not overloaded
+export function getOverloadTimeRemaining(station: Station, now: number, difficulty: Difficulty): number {
+  if (station.overloadedSince === undefined || !isStationOverloaded(station)) return 1
+  const { gracePeriod } = getOverloadSettings(difficulty)
+  return Math.max(0, 1 - (now - station.overloadedSince) / gracePeriod)
+}
+
+export function hasOverloadExpired(station: Station, now: number, difficulty: Difficulty): boolean {
+  return station.overloadedSince !== undefined && isStationOverloaded(station) &&
+    getOverloadTimeRemaining(station, now, difficulty) <= 0
+}
@@ -1,5 +1,6 @@
 import { MercatorCoordinate } from 'maplibre-gl'
 import type { LngLat, Route } from '../types'
+import { isCircularRoute } from './routeEditing'
 
 // Comprehensive metro-style route coordinate generation with perfect straight line guarantees
 export function createMetroRouteCoordinates(
@@ -150,6 +151,7 @@ export interface RouteVisualizationData {
   parallelOffset: number;
   attachmentPoints: Map<string, AttachmentPoint>;
   routeOffsetDirection: { x: number; y: number } | null;
+  isLoop: boolean; // Render points form a closed ring - the shared station's point is not repeated
 }
 
 // Visual route network data (parallel-optimized for rendering)
@@ -185,11 +187,11 @@ const getDistanceInMeters = (pos1: LngLat, pos2: LngLat): number => {
 // Main function to calculate parallel route visualization data
 export function calculateParallelRouteVisualization(
   routes: Route[],
-  stations: Array<{ id: string; position: LngLat; color: string; passengerCount: number }>
+  stations: Array<{ id: string; position: LngLat; color: string }>
 ): ParallelRouteData {
   
   // Quick dictionary for stations
-  const ST = new Map<string, { id: string; position: LngLat; color: string; passengerCount: number }>(
+  const ST = new Map<string, { id: string; position: LngLat; color: string }>(
     stations.map(s => [s.id, s])
   )
 
@@ -571,9 +573,12 @@ export function calculateParallelRouteVisualization(
     if (routeStations.length < 2) continue
     
     const routeMap = new Map<string, AttachmentPoint>()
+    const isLoop = isCircularRoute(route.stations)
     
     // For each station in the route, find the best attachment point
     for (let i = 0; i < routeStations.length; i++) {
+      // A loop passes its shared station once, so it keeps the attachment point chosen at the start
+      if (isLoop && i === routeStations.length - 1) break
       const station = routeStations[i]!
       const attachmentPoints = stationAttachmentPoints.get(station.id) || []
       
@@ -583,9 +588,9 @@ export function calculateParallelRouteVisualization(
       // Determine preferred direction based on route geometry
       let preferredDirection: { x: number; y: number } | null = null
       
-      if (i > 0 && i < routeStations.length - 1) {
-        // Middle station - consider both neighbors
-        const prev = routeStations[i - 1]!
+      if ((i > 0 && i < routeStations.length - 1) || (isLoop && i === 0)) {
+        // Middle station - consider both neighbors (a loop's first station follows its last segment)
+        const prev = routeStations[i > 0 ? i - 1 : routeStations.length - 2]!
         const next = routeStations[i + 1]!
         
         const prevDir = {
@@ -820,13 +825,13 @@ export function calculateParallelRouteVisualization(
 // Generate complete visual route network with pre-calculated rendering data
 export function generateVisualRouteNetwork(
   routes: Route[],
-  stations: Array<{ id: string; position: LngLat; color: string; passengerCount: number }>,
+  stations: Array<{ id: string; position: LngLat; color: string }>,
   parallelData: ParallelRouteData
 ): VisualRouteNetwork {
   const { corridors, stationAttachmentPoints, routeAttachmentPoints, microSegments: allMicroSegments } = parallelData;
   
   // Quick dictionary for stations
-  const ST = new Map<string, { id: string; position: LngLat; color: string; passengerCount: number }>(
+  const ST = new Map<string, { id: string; position: LngLat; color: string }>(
     stations.map((s) => [s.id, s])
   );
 
@@ -1047,7 +1052,12 @@ export function generateVisualRouteNetwork(
     };
 
     // Apply geometric validation and correction to render points
+    const isLoop = isCircularRoute(route.stations);
     const finalRenderPoints = validateAndCorrectPoints(renderPoints);
+    if (isLoop && finalRenderPoints.length > 2) {
+      // The ring is closed when drawn, so the repeated start point would leave a visible seam
+      finalRenderPoints.pop();
+    }
 
     // Calculate parallel offset based on corridor membership
     let parallelOffset = 0;
@@ -1084,6 +1094,7 @@ export function generateVisualRouteNetwork(
       parallelOffset,
       attachmentPoints: attachmentMap,
       routeOffsetDirection,
+      isLoop,
     });
   }
 
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { Disruption, Route, Station, StationType } from '../types'
+import { calculatePassengerRoutingNetwork, getRidesToDestination, shouldBoardRoute, shouldTransferAt } from './passengerRouting'
+import { calculateTrainMovementNetwork } from './routeNetworkCalculator'
+import { getSegmentKey } from './signalling'
+
+function station(id: string, type: StationType, index: number, venue?: Station['venue']): Station {
+  return { id, type, position: { lng: index * 0.01, lat: 0 }, color: '#000', passengers: [], capacity: 12, venue }
+}
+
+function line(id: string, stations: string[], expressSkips: string[] = []): Route {
+  return { id, color: '#e53935', stations, branches: [], expressSkips, headwayControl: 'off', headwayTarget: 6000, tunnels: 0 }
+}
+
+// a (circle) - b (triangle) on the red line, b - c (square) - d (circle) on the blue line
+const STATIONS = [station('a', 'circle', 0), station('b', 'triangle', 1), station('c', 'square', 2), station('d', 'circle', 3, 'stadium')]
+const ROUTES = [line('red', ['a', 'b']), line('blue', ['b', 'c', 'd'])]
+
+function createNetwork(routes: Route[] = ROUTES, disruptions: Disruption[] = []) {
+  return calculatePassengerRoutingNetwork(routes, STATIONS, calculateTrainMovementNetwork(routes, STATIONS), disruptions)
+}
+
+function disruption(type: Disruption['type'], targetId: string): Disruption {
+  return { id: `${type}-${targetId}`, type, targetId, startTime: 0, endTime: 10000 }
+}
+
+describe('calculatePassengerRoutingNetwork', () => {
+  it('counts the rides to each station type', () => {
+    const network = createNetwork()
+    expect(getRidesToDestination(network, 'a', { destinationType: 'triangle' })).toBe(1)
+    expect(getRidesToDestination(network, 'a', { destinationType: 'square' })).toBe(2)
+    expect(getRidesToDestination(network, 'c', { destinationType: 'circle' })).toBe(1)
+    expect(getRidesToDestination(network, 'b', { destinationType: 'triangle' })).toBe(0)
+  })
+
+  it('routes event-goers to their venue rather than any station of its type', () => {
+    const network = createNetwork()
+    expect(getRidesToDestination(network, 'a', { destinationType: 'circle', destinationStationId: 'd' })).toBe(2)
+  })
+
+  it('leaves out lines trains cannot run on', () => {
+    const network = calculatePassengerRoutingNetwork(ROUTES, STATIONS, null)
+    expect(getRidesToDestination(network, 'a', { destinationType: 'triangle' })).toBe(Infinity)
+  })
+
+  it('routes round closed stations', () => {
+    const network = createNetwork(ROUTES, [disruption('stationClosure', 'b')])
+    expect(getRidesToDestination(network, 'a', { destinationType: 'square' })).toBe(Infinity)
+    expect(getRidesToDestination(network, 'd', { destinationType: 'square' })).toBe(1)
+  })
+
+  it('splits a line at a suspended segment', () => {
+    const network = createNetwork(ROUTES, [disruption('signalFailure', getSegmentKey('c', 'd'))])
+    expect(getRidesToDestination(network, 'd', { destinationType: 'triangle' })).toBe(Infinity)
+    expect(getRidesToDestination(network, 'c', { destinationType: 'triangle' })).toBe(1)
+  })
+
+  it('treats an express as a service of its own', () => {
+    const routes = [line('red', ['a', 'b', 'c', 'd'], ['c'])]
+    const network = createNetwork(routes)
+    expect(shouldBoardRoute(network, 'red', 'a', { destinationType: 'square' })).toBe(true)
+    expect(shouldBoardRoute(network, 'red/express', 'a', { destinationType: 'square' })).toBe(false)
+    expect(shouldBoardRoute(network, 'red/express', 'a', { destinationType: 'triangle' })).toBe(true)
+  })
+})
+
+describe('boarding and transferring', () => {
+  const network = createNetwork()
+
+  it('boards lines on a shortest path to the destination', () => {
+    expect(shouldBoardRoute(network, 'red', 'a', { destinationType: 'square' })).toBe(true)
+    expect(shouldBoardRoute(network, 'blue', 'b', { destinationType: 'square' })).toBe(true)
+    expect(shouldBoardRoute(network, 'red', 'b', { destinationType: 'square' })).toBe(false)
+    expect(shouldBoardRoute(null, 'red', 'a', { destinationType: 'square' })).toBe(false)
+  })
+
+  it('changes trains where the line stops bringing the passenger closer', () => {
+    expect(shouldTransferAt(network, 'red', 'b', { destinationType: 'square' })).toBe(true)
+    expect(shouldTransferAt(network, 'blue', 'c', { destinationType: 'circle' })).toBe(false)
+  })
+
+  it('keeps passengers on board when their destination cannot be reached', () => {
+    const stranded = createNetwork(ROUTES, [disruption('stationClosure', 'c')])
+    expect(shouldTransferAt(stranded, 'red', 'b', { destinationType: 'square' })).toBe(false)
+  })
+})
@@ -0,0 +1,168 @@
+import type { Disruption, Passenger, Route, Station, StationType } from '../types'
+import type { TrainMovementNetwork } from './routeNetworkCalculator'
+import { getLineServices, getServicePatternKey } from './servicePatterns'
+import { getClosedStations, getSuspendedSegments } from './disruptions'
+import { getSegmentKey } from './signalling'
+import { isEventVenue } from './specialEvents'
+
+// Passenger routing network - shortest-transfer paths from every station to every station type and event venue.
+// A "ride" is one continuous journey on a single service (see utils/servicePatterns.ts), so
+// rides - 1 is the number of transfers. Changing between a line's branches, or between its
+// stopping and express trains, counts as a transfer. Disruptions in force are routed round:
+// closed stations are left out and a suspended segment splits a service into stretches that
+// can each still be ridden (see utils/disruptions.ts).
+export interface PassengerRoutingNetwork {
+  // destination type -> station ID -> minimum number of rides needed (missing = unreachable)
+  ridesToType: Map<StationType, Map<string, number>>
+  // event venue station ID -> station ID -> minimum number of rides needed
+  ridesToStation: Map<string, Map<string, number>>
+  // service key -> stretches of the service that can be ridden, each the station IDs it calls at
+  routeStations: Map<string, string[][]>
+  lastUpdated: number
+}
+
+// Where a passenger is heading - any station of a type, or one venue for event-goers
+export type PassengerDestination = Pick<Passenger, 'destinationType' | 'destinationStationId'>
+
+export function isPassengerDestination(destination: PassengerDestination, station: Pick<Station, 'id' | 'type'>): boolean {
+  return destination.destinationStationId
+    ? destination.destinationStationId === station.id
+    : destination.destinationType === station.type
+}
+
+// Main function to calculate the passenger routing network
+export function calculatePassengerRoutingNetwork(
+  routes: Route[],
+  stations: Array<Pick<Station, 'id' | 'type' | 'venue'>>,
+  trainMovementNetwork: TrainMovementNetwork | null,
+  disruptions: Disruption[] = []
+): PassengerRoutingNetwork {
+  const closedStations = getClosedStations(disruptions)
+  const suspendedSegments = getSuspendedSegments(disruptions)
+
+  // Only services on patterns trains can actually run on take part in routing
+  const routeStations = new Map<string, string[][]>()
+  for (const service of routes.flatMap(getLineServices)) {
+    if (!trainMovementNetwork?.routes.has(getServicePatternKey(service.routeId, service.branchId))) continue
+    const stretches: string[][] = [[]]
+    service.stations.forEach((stationId, i) => {
+      if (i > 0 && suspendedSegments.has(getSegmentKey(service.stations[i - 1], stationId))) stretches.push([])
+      if (service.callingStations.includes(stationId) && !closedStations.has(stationId)) {
+        stretches[stretches.length - 1].push(stationId)
+      }
+    })
+    routeStations.set(service.key, stretches.map(stretch => Array.from(new Set(stretch))).filter(stretch => stretch.length > 1))
+  }
+
+  // Every stretch is a ride of its own; station -> rides serving it, for walking the ride graph
+  const rides = Array.from(routeStations.values()).flat()
+  const stationRides = new Map<string, number[]>()
+  rides.forEach((stationIds, rideIndex) => {
+    for (const stationId of stationIds) {
+      if (!stationRides.has(stationId)) stationRides.set(stationId, [])
+      stationRides.get(stationId)!.push(rideIndex)
+    }
+  })
+
+  // Multi-source breadth-first search backwards from a set of destination stations.
+  // Each layer adds one ride: every station sharing a ride with the frontier is one ride further away.
+  const countRidesTo = (destinationIds: string[]): Map<string, number> => {
+    const ridesTo = new Map<string, number>()
+    let frontier = destinationIds.filter(id => !closedStations.has(id))
+    frontier.forEach(id => ridesTo.set(id, 0))
+    const expandedRides = new Set<number>()
+
+    let depth = 0
+    while (frontier.length > 0) {
+      depth++
+      const nextFrontier: string[] = []
+      for (const stationId of frontier) {
+        for (const rideIndex of stationRides.get(stationId) || []) {
+          if (expandedRides.has(rideIndex)) continue
+          expandedRides.add(rideIndex)
+          for (const neighbourId of rides[rideIndex]) {
+            if (!ridesTo.has(neighbourId)) {
+              ridesTo.set(neighbourId, depth)
+              nextFrontier.push(neighbourId)
+            }
+          }
+        }
+      }
+      frontier = nextFrontier
+    }
+    return ridesTo
+  }
+
+  const ridesToType = new Map<StationType, Map<string, number>>()
+  for (const type of new Set(stations.map(s => s.type))) {
+    ridesToType.set(type, countRidesTo(stations.filter(s => s.type === type).map(s => s.id)))
+  }
+
+  // Event-goers head for one venue rather than any station of its type
+  const ridesToStation = new Map<string, Map<string, number>>()
+  for (const station of stations.filter(s => isEventVenue(s.venue))) {
+    ridesToStation.set(station.id, countRidesTo([station.id]))
+  }
+
+  return {
+    ridesToType,
+    ridesToStation,
+    routeStations,
+    lastUpdated: Date.now()
+  }
+}
+
+// Minimum rides from a station to the passenger's destination (Infinity if unreachable)
+export function getRidesToDestination(
+  network: PassengerRoutingNetwork,
+  stationId: string,
+  destination: PassengerDestination
+): number {
+  const ridesTo = destination.destinationStationId
+    ? network.ridesToStation.get(destination.destinationStationId)
+    : network.ridesToType.get(destination.destinationType)
+  return ridesTo?.get(stationId) ?? Infinity
+}
+
+// A route is on a shortest-transfer path from a station if it reaches a station one ride closer
+export function isRouteOnShortestPath(
+  network: PassengerRoutingNetwork,
+  serviceKey: string,
+  stationId: string,
+  destination: PassengerDestination
+): boolean {
+  const ridesFromHere = getRidesToDestination(network, stationId, destination)
+  if (ridesFromHere === 0 || !Number.isFinite(ridesFromHere)) return false
+
+  // Only the stretch of the service the station is on can be ridden from it
+  const stationIds = network.routeStations.get(serviceKey)?.find(stretch => stretch.includes(stationId)) || []
+  return stationIds.some(id =>
+    id !== stationId && getRidesToDestination(network, id, destination) === ridesFromHere - 1
+  )
+}
+
+// Waiting passengers board a train only when its route is part of their plan
+export function shouldBoardRoute(
+  network: PassengerRoutingNetwork | null,
+  serviceKey: string,
+  stationId: string,
+  destination: PassengerDestination
+): boolean {
+  if (!network) return false
+  return isRouteOnShortestPath(network, serviceKey, stationId, destination)
+}
+
+// Riding passengers change trains at an interchange once their route no longer
+// brings them closer. Unreachable destinations keep passengers on board rather
+// than stranding them on a platform.
+export function shouldTransferAt(
+  network: PassengerRoutingNetwork | null,
+  serviceKey: string,
+  stationId: string,
+  destination: PassengerDestination
+): boolean {
+  if (!network) return false
+  const ridesFromHere = getRidesToDestination(network, stationId, destination)
+  if (ridesFromHere === 0 || !Number.isFinite(ridesFromHere)) return false
+  return !isRouteOnShortestPath(network, serviceKey, stationId, destination)
+}
@@ -0,0 +1,36 @@
+// Seeded pseudo-random number generation for the simulation.
+// Everything random in a game run draws from one generator whose whole state is a
+// single 32-bit integer, so a run can be saved, restored and replayed exactly.
+
+export interface SeededRandom {
+  next: () => number // Uniform float in [0, 1)
+  getState: () => number
+}
+
+// Mulberry32 - small and fast, good enough statistical quality for gameplay
+export function createSeededRandom(state: number): SeededRandom {
+  let current = state >>> 0
+
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0
+      let t = current
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    },
+    getState: () => current
+  }
+}
+
+// Fresh seed for a new game (the only place wall-clock randomness is allowed)
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+// Probability of an event in a step of `dt` ms, given its probability per reference interval
+export function scaleProbability(probabilityPerInterval: number, dt: number, intervalMs: number): number {
+  if (probabilityPerInterval <= 0) return 0
+  if (probabilityPerInterval >= 1) return 1
+  return 1 - Math.pow(1 - probabilityPerInterval, dt / intervalMs)
+}
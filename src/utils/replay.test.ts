@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import recordedSession from '../../cypress/fixtures/replay-session.json?raw'
+import { useGameStore } from '../store/gameStore'
+import { parseReplay } from './replay'
+
+// A recorded normal-mode game: three starting stations and a line, a second train, an
+// extension, a reward choice and a second line, played until a station overloads
+describe('replay playback', () => {
+  it('reproduces a recorded session to its final score and tick', () => {
+    const replay = parseReplay(recordedSession)
+    useGameStore.getState().startPlayback(replay)
+    useGameStore.getState().seekPlayback(replay.endTick)
+
+    const state = useGameStore.getState()
+    expect(state.tick).toBe(1325)
+    expect(state.score).toBe(2653)
+    expect(state.money).toBe(1014)
+    expect(state.stations).toHaveLength(8)
+    expect(state.routes).toHaveLength(2)
+    expect(state.trains).toHaveLength(3)
+    expect(state.isGameOver).toBe(true)
+    expect(state.playback?.nextActionIndex).toBe(replay.actions.length)
+  })
+
+  it('goes back to the game it interrupted when stopped', () => {
+    const store = useGameStore.getState()
+    store.resetGame({ seed: 5, mode: 'endless' })
+    const bounds = { southwest: { lng: -0.2, lat: 51.45 }, northeast: { lng: 0, lat: 51.55 } }
+    store.addStation(bounds, { lng: -0.12, lat: 51.5 }, undefined, () => 0.5, true)
+    store.addStation(bounds, { lng: -0.1, lat: 51.51 }, undefined, () => 0.5, true)
+    const interrupted = useGameStore.getState()
+
+    const replay = parseReplay(recordedSession)
+    useGameStore.getState().startPlayback(replay)
+    useGameStore.getState().seekPlayback(replay.endTick)
+    useGameStore.getState().seekPlayback(0)
+    useGameStore.getState().stopPlayback()
+
+    const state = useGameStore.getState()
+    expect(state.playback).toBeNull()
+    expect(state.isGameOver).toBe(false)
+    expect(state.seed).toBe(5)
+    expect(state.stations).toEqual(interrupted.stations)
+    expect(state.replayLog).toEqual(interrupted.replayLog)
+  })
+
+  it('rejects a replay from an unsupported version', () => {
+    expect(() => parseReplay({ ...JSON.parse(recordedSession), version: 99 })).toThrow('not supported')
+  })
+})
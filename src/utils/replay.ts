@@ -0,0 +1,119 @@
+import type { HeadwayControl, LngLat, RewardResource, StationType } from '../types';
+import { downloadJsonFile, parseSaveGame, SAVE_VERSION, type SavedGameState } from './saveGame';
+
+// Replay recording - a game is its starting snapshot plus every player action stamped
+// with the simulation tick it happened at. Because the simulation is deterministic
+// (seeded RNG, fixed steps), re-applying the actions at the same ticks reproduces the
+// whole game exactly. Station placement depends on the map, so spawned stations are
+// recorded as actions too, and route edits record the tunnels their water crossings needed.
+
+export const REPLAY_VERSION = 1;
+
+export type ReplayActionData =
+  | { type: 'addStation'; position: LngLat; buildingDensity: number; isInitialStation: boolean; name?: string }
+  | { type: 'moveStation'; stationId: string; position: LngLat; routeTunnels?: Record<string, number> }
+  | { type: 'addRoute'; stationIds: string[]; color: string; tunnels?: number }
+  | { type: 'extendRoute'; routeId: string; stationId: string; atEnd: boolean; tunnels?: number }
+  | { type: 'removeRoute'; routeId: string }
+  | { type: 'removeStationFromRoute'; routeId: string; stationId: string; tunnels?: number }
+  | { type: 'insertStationIntoRoute'; routeId: string; stationId: string; index: number; tunnels?: number }
+  | { type: 'addBranch'; routeId: string; junctionStationId: string; stationId: string; tunnels?: number }
+  | { type: 'extendBranch'; routeId: string; branchId: string; stationId: string; tunnels?: number }
+  | { type: 'trimBranch'; routeId: string; branchId: string; tunnels?: number }
+  | { type: 'removeBranch'; routeId: string; branchId: string; tunnels?: number }
+  | { type: 'addTrain'; routeId: string; branchId?: string | null }
+  | { type: 'removeTrain'; trainId: string }
+  | { type: 'setTrainExpress'; trainId: string; isExpress: boolean }
+  | { type: 'toggleExpressSkip'; routeId: string; stationId: string }
+  | { type: 'setHeadwayControl'; routeId: string; headwayControl: HeadwayControl }
+  | { type: 'setHeadwayTarget'; routeId: string; headwayTarget: number }
+  | { type: 'addCarriage'; trainId: string }
+  | { type: 'removeCarriage'; trainId: string }
+  | { type: 'buildInterchange'; stationId: string }
+  | { type: 'chooseReward'; resource: RewardResource }
+  | { type: 'selectStation'; stationId: string | null }
+  | { type: 'addPassengerToStation'; stationId: string; destinationType?: StationType };
+
+export type ReplayAction = ReplayActionData & { tick: number };
+
+// Recording of the game currently being played
+export interface ReplayLog {
+  start: SavedGameState;
+  actions: ReplayAction[];
+}
+
+export interface Replay extends ReplayLog {
+  version: number;
+  cityId: string;
+  endTick: number; // Tick at which the recording was exported
+}
+
+// Playback of a loaded replay
+export interface ReplayPlayback {
+  replay: Replay;
+  isPaused: boolean;
+  nextActionIndex: number; // First action not applied yet
+  // Game being played when the replay started, picked up again when playback stops - null if there wasn't one
+  interruptedGame: { state: SavedGameState; replayLog: ReplayLog } | null;
+}
+
+/**
+ * Finish a replay log into a shareable replay
+ */
+export const createReplay = (log: ReplayLog, cityId: string, endTick: number): Replay => {
+  return {
+    version: REPLAY_VERSION,
+    cityId,
+    start: log.start,
+    actions: log.actions,
+    endTick
+  };
+};
+
+export const serializeReplay = (replay: Replay): string => {
+  return JSON.stringify(replay);
+};
+
+/**
+ * Parse replay data (a JSON string or an already parsed object).
+ * Throws an Error describing the problem if the data is not a usable replay.
+ */
+export const parseReplay = (data: string | unknown): Replay => {
+  let raw: unknown = data;
+  if (typeof data === 'string') {
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      throw new Error('Replay file is not valid JSON');
+    }
+  }
+
+  const replay = raw as Partial<Replay> | null;
+  if (!replay || typeof replay !== 'object' || typeof replay.version !== 'number') {
+    throw new Error('Replay file is empty or malformed');
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Replay file version ${replay.version} is not supported`);
+  }
+  if (typeof replay.cityId !== 'string' || !replay.start || !Array.isArray(replay.start.stations) ||
+      !Array.isArray(replay.actions) || typeof replay.endTick !== 'number') {
+    throw new Error('Replay file is missing game data');
+  }
+
+  return {
+    version: replay.version,
+    cityId: replay.cityId,
+    // Fill in any fields the start snapshot predates, the same way loading a save does
+    start: parseSaveGame({ version: SAVE_VERSION, cityId: replay.cityId, state: replay.start }).state,
+    // Actions must be applied in tick order; the sort is stable so same-tick order is kept
+    actions: [...replay.actions].sort((a, b) => a.tick - b.tick),
+    endTick: replay.endTick
+  };
+};
+
+/**
+ * Offer a replay to the user as a downloadable .json file
+ */
+export const downloadReplay = (replay: Replay): void => {
+  downloadJsonFile(`metromesh-replay-${replay.cityId}-${replay.endTick}.json`, serializeReplay(replay));
+};
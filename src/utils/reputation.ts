@@ -0,0 +1,32 @@
+import { PATIENCE_CONFIG } from '../config/gameConfig'
+import type { Passenger, Train } from '../types'
+
+// Passenger patience and the city's reputation.
+// Every passenger's patience runs down while they wait on a platform or ride a crowded train.
+// Passengers who run out give up - waiting ones leave the station at once, riders get off at
+// their train's next stop - and each one costs the city some reputation, which deliveries slowly
+// win back. A poor reputation puts people off the network and scales down the trips they make.
+
+export function isTrainCrowded(train: Pick<Train, 'passengers' | 'capacity'>): boolean {
+  return train.capacity > 0 && train.passengers.length / train.capacity >= PATIENCE_CONFIG.crowdedLoadFactor
+}
+
+export function drainPatience(passengers: Passenger[], amount: number): Passenger[] {
+  if (amount <= 0 || passengers.length === 0) return passengers
+  return passengers.map(passenger => ({ ...passenger, patience: Math.max(0, passenger.patience - amount) }))
+}
+
+export function hasGivenUp(passenger: Passenger): boolean {
+  return passenger.patience <= 0
+}
+
+export function updateReputation(reputation: number, delivered: number, abandoned: number): number {
+  const change = delivered * PATIENCE_CONFIG.deliveryReward - abandoned * PATIENCE_CONFIG.abandonmentPenalty
+  return Math.min(PATIENCE_CONFIG.maxReputation, Math.max(0, reputation + change))
+}
+
+// Scales the demand model's trips - full demand at full reputation
+export function getReputationDemandMultiplier(reputation: number): number {
+  const share = reputation / PATIENCE_CONFIG.maxReputation
+  return PATIENCE_CONFIG.minDemandMultiplier + (1 - PATIENCE_CONFIG.minDemandMultiplier) * share
+}
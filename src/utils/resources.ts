@@ -0,0 +1,60 @@
+import { RESOURCE_CONFIG } from '../config/gameConfig'
+import type { GameMode, Inventory, ResourceType, RewardResource, Route, Station, Train } from '../types'
+import type { SeededRandom } from './random'
+import { getGameModeRules } from './gameModes'
+
+// Resource economy.
+// Lines, locomotives, carriages, tunnels and interchanges come from a limited inventory.
+// Building spends them and removing returns them, so the inventory always holds what is
+// still available. Every simulated week brings a locomotive and a choice of upgrades.
+
+export const RESOURCE_LABELS: Record<ResourceType, string> = {
+  lines: 'Lines',
+  locomotives: 'Locomotives',
+  carriages: 'Carriages',
+  tunnels: 'Tunnels',
+  interchanges: 'Interchanges'
+}
+
+export const RESOURCE_ICONS: Record<ResourceType, string> = {
+  lines: '〰️',
+  locomotives: '🚆',
+  carriages: '🚃',
+  tunnels: '🌉',
+  interchanges: '🔄'
+}
+
+export function createInitialInventory(mode: GameMode): Inventory {
+  return { ...getGameModeRules(mode).initialInventory }
+}
+
+// Starting inventory less what an existing network already uses - for saves made before the inventory existed
+export function getRemainingInventory(routes: Route[], trains: Train[], stations: Station[]): Inventory {
+  const initial = RESOURCE_CONFIG.initialInventory
+  return {
+    lines: Math.max(0, initial.lines - routes.length),
+    locomotives: Math.max(0, initial.locomotives - trains.length),
+    carriages: Math.max(0, initial.carriages - trains.reduce((total, train) => total + (train.carriages ?? 0), 0)),
+    tunnels: initial.tunnels,
+    interchanges: Math.max(0, initial.interchanges - stations.filter(station => station.isInterchange).length)
+  }
+}
+
+// Add (or with a negative amount, spend) some of a resource
+export function adjustInventory(inventory: Inventory, resource: ResourceType, amount: number): Inventory {
+  return { ...inventory, [resource]: Math.max(0, inventory[resource] + amount) }
+}
+
+// Upgrades offered at the start of a week, drawn without repeats from the seeded generator.
+// New lines stop being offered once every route colour is in use or waiting in the inventory.
+export function pickRewardOptions(inventory: Inventory, routeCount: number, random: SeededRandom): RewardResource[] {
+  const available = RESOURCE_CONFIG.rewardOptions.filter(resource =>
+    resource !== 'lines' || routeCount + inventory.lines < RESOURCE_CONFIG.maxLines
+  )
+  const options: RewardResource[] = []
+  while (options.length < RESOURCE_CONFIG.rewardChoiceCount && available.length > 0) {
+    const index = Math.floor(random.next() * available.length)
+    options.push(available.splice(index, 1)[0])
+  }
+  return options
+}
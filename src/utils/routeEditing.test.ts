@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { Route, Train } from '../types'
+import { remapLineTrainAfterRemoval, remapTrainAfterRemoval, removeMainStation } from './routeEditing'
+
+function train(position: number, branchId: string | null = null): Train {
+  return {
+    id: 'train', routeId: 'red', branchId, isExpress: false, position, direction: 1, passengers: [],
+    capacity: 6, carriages: 0, speedKmh: 80, speed: 0, waitTime: 0, lastStationVisited: -1
+  }
+}
+
+// a - b - c - d, with a branch leaving from b to x and one leaving from c to y
+const ROUTE: Route = {
+  id: 'red',
+  color: '#e53935',
+  stations: ['a', 'b', 'c', 'd'],
+  branches: [{ id: 'to-x', junctionIndex: 1, stations: ['x'] }, { id: 'to-y', junctionIndex: 2, stations: ['y'] }],
+  expressSkips: [],
+  headwayControl: 'off',
+  headwayTarget: 6000,
+  tunnels: 0
+}
+
+describe('remapTrainAfterRemoval', () => {
+  it('merges the two segments around a removed middle station', () => {
+    expect(remapTrainAfterRemoval(train(0.5), 1, 3).position).toBeCloseTo(0.25)
+    expect(remapTrainAfterRemoval(train(1.5), 1, 3).position).toBeCloseTo(0.75)
+    expect(remapTrainAfterRemoval(train(2.5), 1, 3).position).toBeCloseTo(1.5)
+  })
+
+  it('snaps a train on a removed end segment to the new terminus', () => {
+    expect(remapTrainAfterRemoval(train(0.5), 0, 3).position).toBe(0)
+    expect(remapTrainAfterRemoval(train(1.5), 0, 3).position).toBeCloseTo(0.5)
+    expect(remapTrainAfterRemoval(train(2.5), 3, 3).position).toBe(2)
+    expect(remapTrainAfterRemoval(train(1.5), 3, 3).position).toBeCloseTo(1.5)
+  })
+})
+
+describe('removeMainStation', () => {
+  it('keeps branches at the station they leave from', () => {
+    const route = removeMainStation({ ...ROUTE, stations: ['a', 'b', 'c', 'd', 'e'] }, 4)
+    expect(route.stations).toEqual(['a', 'b', 'c', 'd'])
+    expect(route.branches.map(branch => branch.junctionIndex)).toEqual([1, 2])
+  })
+
+  it('drops a branch leaving from the removed station', () => {
+    expect(removeMainStation(ROUTE, 1).branches.map(branch => branch.id)).toEqual(['to-y'])
+  })
+
+  it('drops a branch that would leave from a terminus', () => {
+    expect(removeMainStation(ROUTE, 0).branches.map(branch => branch.id)).toEqual(['to-y'])
+    expect(removeMainStation(ROUTE, 3).branches.map(branch => branch.id)).toEqual(['to-x'])
+  })
+})
+
+describe('remapLineTrainAfterRemoval', () => {
+  it('moves trains on a dropped branch onto the main stations', () => {
+    const remapped = remapLineTrainAfterRemoval(train(2.5, 'to-x'), ROUTE, 0)
+    expect(remapped.branchId).toBeNull()
+    expect(remapped.position).toBe(0)
+  })
+
+  it('leaves trains on other branches running their branch', () => {
+    const remapped = remapLineTrainAfterRemoval(train(2.5, 'to-x'), ROUTE, 3)
+    expect(remapped.branchId).toBe('to-x')
+    expect(remapped.position).toBe(2.5)
+  })
+})
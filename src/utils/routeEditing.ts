@@ -0,0 +1,128 @@
+import type { Route, RouteBranch, Train } from '../types'
+
+// Route editing helpers - keep trains consistent when stations are removed from or inserted into a line.
+// A train's position is a fractional index into its route's station list, so editing the list
+// has to move trains along with the stations they are travelling between.
+
+// A loop (circle line) starts and ends at the same station, so trains can run round it continuously
+export function isCircularRoute(stationIds: string[]): boolean {
+  return stationIds.length > 3 && stationIds[0] === stationIds[stationIds.length - 1]
+}
+
+// Whether extending one end of a line onto a station closes it into a loop - only its far terminus does
+export function isClosingLoop(route: Pick<Route, 'stations'>, stationId: string, atEnd: boolean): boolean {
+  const farTerminusId = atEnd ? route.stations[0] : route.stations[route.stations.length - 1]
+  return stationId === farTerminusId && route.stations.length >= 3
+}
+
+// Move a train after the station at removedIndex is taken out of its route
+export function remapTrainAfterRemoval(train: Train, removedIndex: number, newStationCount: number): Train {
+  const maxPosition = Math.max(0, newStationCount - 1)
+  let position = train.position
+
+  if (removedIndex === 0) {
+    // The first segment goes with the first station, so a train on it snaps to the new first station
+    position = Math.max(0, position - 1)
+  } else if (removedIndex === newStationCount) {
+    // Likewise for the last segment and the new last station
+    position = Math.min(removedIndex - 1, position)
+  } else if (position >= removedIndex + 1) {
+    position -= 1 // Beyond the removed station - everything shifts down by one
+  } else if (position > removedIndex - 1) {
+    // On one of the two segments around the removed station, which merge into one
+    position = (removedIndex - 1) + (position - (removedIndex - 1)) / 2
+  }
+
+  let lastStationVisited = train.lastStationVisited
+  if (lastStationVisited === removedIndex) {
+    lastStationVisited = -1
+  } else if (lastStationVisited > removedIndex) {
+    lastStationVisited -= 1
+  }
+
+  return {
+    ...train,
+    position: Math.max(0, Math.min(maxPosition, position)),
+    lastStationVisited
+  }
+}
+
+// Move a train after a station is inserted at insertedIndex (between insertedIndex - 1 and the old insertedIndex)
+export function remapTrainAfterInsertion(train: Train, insertedIndex: number): Train {
+  let position = train.position
+
+  if (position >= insertedIndex) {
+    position += 1 // Beyond the new station - everything shifts up by one
+  } else if (position > insertedIndex - 1) {
+    // On the split segment, which now spans two segments
+    position = (insertedIndex - 1) + (position - (insertedIndex - 1)) * 2
+  }
+
+  return {
+    ...train,
+    position,
+    lastStationVisited: train.lastStationVisited >= insertedIndex ? train.lastStationVisited + 1 : train.lastStationVisited
+  }
+}
+
+// Whether a branch survives the station at removedIndex being taken out of its line's main stations.
+// Branches leave between the line's ends, so one left leaving from a new terminus goes too.
+function keepsBranch(branch: RouteBranch, removedIndex: number, stationCount: number): boolean {
+  if (branch.junctionIndex === removedIndex) return false
+  const junctionIndex = branch.junctionIndex > removedIndex ? branch.junctionIndex - 1 : branch.junctionIndex
+  return junctionIndex > 0 && junctionIndex < stationCount - 2
+}
+
+// Take the station at removedIndex out of a line's main stations. Branches keep leaving from the
+// same station, and a branch leaving from the removed station or from a new terminus goes with it.
+export function removeMainStation(route: Route, removedIndex: number): Route {
+  return {
+    ...route,
+    stations: route.stations.filter((_, index) => index !== removedIndex),
+    branches: route.branches
+      .filter(branch => keepsBranch(branch, removedIndex, route.stations.length))
+      .map(branch => branch.junctionIndex > removedIndex ? { ...branch, junctionIndex: branch.junctionIndex - 1 } : branch)
+  }
+}
+
+// Put a station into a line's main stations at insertedIndex, keeping branches at their junctions
+export function insertMainStation(route: Route, stationId: string, insertedIndex: number): Route {
+  return {
+    ...route,
+    stations: [...route.stations.slice(0, insertedIndex), stationId, ...route.stations.slice(insertedIndex)],
+    branches: route.branches.map(branch =>
+      branch.junctionIndex >= insertedIndex ? { ...branch, junctionIndex: branch.junctionIndex + 1 } : branch
+    )
+  }
+}
+
+// A train leaving its branch carries on along the main stations - from the junction if it was beyond it
+export function moveTrainOffBranch(train: Train, junctionIndex: number): Train {
+  if (train.position <= junctionIndex) return { ...train, branchId: null }
+  return { ...train, branchId: null, position: junctionIndex, lastStationVisited: -1 }
+}
+
+// Move one of a line's trains after removeMainStation. Branch trains only move if the station was
+// on the trunk they share, and trains on a removed branch carry on along the main stations.
+export function remapLineTrainAfterRemoval(train: Train, route: Route, removedIndex: number): Train {
+  const mainStationCount = route.stations.length - 1
+  const branch = route.branches.find(b => b.id === train.branchId)
+  if (!branch) return remapTrainAfterRemoval(train, removedIndex, mainStationCount)
+  if (!keepsBranch(branch, removedIndex, route.stations.length)) {
+    return remapTrainAfterRemoval(moveTrainOffBranch(train, branch.junctionIndex), removedIndex, mainStationCount)
+  }
+  if (removedIndex > branch.junctionIndex) return train
+  return remapTrainAfterRemoval(train, removedIndex, branch.junctionIndex + branch.stations.length)
+}
+
+// Move one of a line's trains after insertMainStation - branch trains only if the station is on their trunk
+export function remapLineTrainAfterInsertion(train: Train, route: Route, insertedIndex: number): Train {
+  const branch = route.branches.find(b => b.id === train.branchId)
+  if (branch && insertedIndex > branch.junctionIndex) return train
+  return remapTrainAfterInsertion(train, insertedIndex)
+}
+
+// Station where a train's riders get off if its line disappears - the station it is closest to
+export function getNearestStationIndex(train: Train, stationCount: number): number {
+  return Math.max(0, Math.min(stationCount - 1, Math.round(train.position)))
+}
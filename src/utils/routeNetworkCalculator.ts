@@ -1,5 +1,8 @@
 import { MercatorCoordinate } from "maplibre-gl";
 import type { LngLat, Route } from "../types";
+import { calculateDistance } from "./coordinates";
+import { getServicePatterns } from "./servicePatterns";
+import { findSharedSegments, getSharedSegmentFlags } from "./signalling";
 
 // Core train positioning and movement functions
 
@@ -59,6 +62,19 @@ function createMetroRouteCoordinates(
   return coordinates;
 }
 
+// Length in metres of the track between two stations, following the metro route geometry
+export function getMetroRouteLength(start: LngLat, target: LngLat): number {
+  const metroCoords = createMetroRouteCoordinates(start, target);
+  let length = 0;
+  for (let i = 1; i < metroCoords.length; i++) {
+    length += calculateDistance(
+      { lng: metroCoords[i - 1][0], lat: metroCoords[i - 1][1] },
+      { lng: metroCoords[i][0], lat: metroCoords[i][1] }
+    );
+  }
+  return length;
+}
+
 // Helper function to get position along metro route
 function getTrainPositionOnMetroRoute(
   routeStations: Array<{ id: string; position: LngLat; color: string }>,
@@ -145,12 +161,15 @@ function getTrainPositionOnMetroRoute(
 
 // Core route network interfaces for train movement
 
-// Train movement network data (unmodified routes for accurate train positioning)
+// Train movement network data (unmodified routes for accurate train positioning).
+// Keyed by service pattern, so each of a line's branches has its own path
 export interface TrainMovementNetwork {
   routes: Map<string, {
     routeId: string;
     stationPositions: LngLat[];  // Original station positions
     routeCoordinates: LngLat[];  // Unmodified route coordinates for train movement
+    segmentLengths: number[];  // Distance (m) along the path between each pair of neighbouring stations
+    sharedSegments: boolean[];  // Segments other lines run along too - signalled blocks, see utils/signalling.ts
   }>;
   lastUpdated: number;
 }
@@ -162,13 +181,12 @@ export function calculateTrainMovementNetwork(
     id: string;
     position: LngLat;
     color: string;
-    passengerCount: number;
   }>
 ): TrainMovementNetwork {
   // Quick dictionary for stations
   const ST = new Map<
     string,
-    { id: string; position: LngLat; color: string; passengerCount: number }
+    { id: string; position: LngLat; color: string }
   >(stations.map((s) => [s.id, s]));
 
   // Generate Train Movement Network (unmodified routes)
@@ -176,16 +194,20 @@ export function calculateTrainMovementNetwork(
     routeId: string;
     stationPositions: LngLat[];
     routeCoordinates: LngLat[];
+    segmentLengths: number[];
+    sharedSegments: boolean[];
   }>();
+  const sharedSegments = findSharedSegments(routes);
 
-  for (const route of routes) {
-    if (route.stations.length < 2) continue;
+  for (const pattern of routes.flatMap(getServicePatterns)) {
+    if (pattern.stations.length < 2) continue;
 
-    const routeStations = route.stations.map(id => ST.get(id)).filter(Boolean);
+    const routeStations = pattern.stations.map(id => ST.get(id)).filter(Boolean);
     if (routeStations.length < 2) continue;
 
     const stationPositions = routeStations.map(s => s!.position);
     const routeCoordinates: LngLat[] = [];
+    const segmentLengths: number[] = [];
 
     // Generate unmodified route coordinates for train movement
     for (let i = 0; i < routeStations.length - 1; i++) {
@@ -198,15 +220,23 @@ export function calculateTrainMovementNetwork(
         routeCoordinates.push({ lng: metroCoords[0][0], lat: metroCoords[0][1] });
       }
 
+      let segmentLength = 0;
       for (let j = 1; j < metroCoords.length; j++) {
         routeCoordinates.push({ lng: metroCoords[j][0], lat: metroCoords[j][1] });
+        segmentLength += calculateDistance(
+          { lng: metroCoords[j - 1][0], lat: metroCoords[j - 1][1] },
+          { lng: metroCoords[j][0], lat: metroCoords[j][1] }
+        );
       }
+      segmentLengths.push(segmentLength);
     }
 
-    trainMovementRoutes.set(route.id, {
-      routeId: route.id,
+    trainMovementRoutes.set(pattern.key, {
+      routeId: pattern.routeId,
       stationPositions,
-      routeCoordinates
+      routeCoordinates,
+      segmentLengths,
+      sharedSegments: getSharedSegmentFlags(pattern.stations, sharedSegments)
     });
   }
 
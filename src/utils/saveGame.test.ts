@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { GAME_MODE_CONFIG, PATIENCE_CONFIG } from '../config/gameConfig'
+import { useGameStore } from '../store/gameStore'
+import { createSaveGame, parseSaveGame, SAVE_VERSION, serializeSaveGame } from './saveGame'
+
+function createGameSave() {
+  useGameStore.getState().resetGame({ seed: 99, mode: 'normal' })
+  const bounds = { southwest: { lng: -0.2, lat: 51.45 }, northeast: { lng: 0, lat: 51.55 } }
+  useGameStore.getState().addStation(bounds, { lng: -0.12, lat: 51.5 }, undefined, () => 0.5, true)
+  useGameStore.getState().addStation(bounds, { lng: -0.1, lat: 51.51 }, undefined, () => 0.5, true)
+  useGameStore.getState().addRoute(useGameStore.getState().stations.map(station => station.id), '#e53935')
+  return createSaveGame(useGameStore.getState(), 'london')
+}
+
+describe('parseSaveGame', () => {
+  it('reads back what was saved', () => {
+    const save = createGameSave()
+    const parsed = parseSaveGame(serializeSaveGame(save))
+    expect(parsed.version).toBe(SAVE_VERSION)
+    expect(parsed.cityId).toBe('london')
+    expect(parsed.state).toEqual(save.state)
+  })
+
+  it('fills in fields missing from the save', () => {
+    const save = parseSaveGame({
+      version: SAVE_VERSION,
+      cityId: 'london',
+      state: { stations: [], routes: [], trains: [], score: 50, seed: 7 }
+    })
+    expect(save.state.rngState).toBe(7)
+    expect(save.state.mode).toBe(GAME_MODE_CONFIG.defaultMode)
+    expect(save.state.reputation).toBe(PATIENCE_CONFIG.maxReputation)
+    expect(save.state.money).toBe(GAME_MODE_CONFIG.modes[GAME_MODE_CONFIG.defaultMode].startingFunds)
+    expect(save.state.ledger.lastWeek).toBeNull()
+    expect(save.state.disruptions).toEqual([])
+  })
+
+  it('rejects data that is not a usable save', () => {
+    expect(() => parseSaveGame('{not json')).toThrow('not valid JSON')
+    expect(() => parseSaveGame(null)).toThrow('empty or malformed')
+    expect(() => parseSaveGame({ cityId: 'london', state: {} })).toThrow('no version')
+    expect(() => parseSaveGame({ version: SAVE_VERSION, cityId: 'london', state: { stations: [] } })).toThrow('missing game data')
+  })
+
+  it('rejects saves from other versions of the game without a migration', () => {
+    expect(() => parseSaveGame({ ...createGameSave(), version: SAVE_VERSION + 1 })).toThrow('newer than this game supports')
+    expect(() => parseSaveGame({ ...createGameSave(), version: 0 })).toThrow('No migration from save version 0')
+  })
+})
@@ -0,0 +1,245 @@
+import type { GameState } from '../types';
+import { GAME_MODE_CONFIG, OVERLOAD_CONFIG, PATIENCE_CONFIG } from '../config/gameConfig';
+import { getRemainingInventory } from './resources';
+import { getGameModeRules } from './gameModes';
+import { createLedger } from './economy';
+import { createScoreBreakdown } from './scoring';
+
+// Save game snapshots - versioned so older saves keep loading after the schema changes.
+// Only the simulation state is stored; the TrainMovementNetwork, VisualRouteNetwork and
+// passenger routing caches are derived data and are rebuilt on load.
+
+export const SAVE_VERSION = 1;
+
+const AUTOSAVE_STORAGE_KEY = 'metromesh-autosave';
+
+export type SavedGameState = Pick<GameState,
+  | 'stations'
+  | 'routes'
+  | 'trains'
+  | 'score'
+  | 'scoreBreakdown'
+  | 'seed'
+  | 'rngState'
+  | 'elapsedTime'
+  | 'tick'
+  | 'nextEntityId'
+  | 'lastStationSpawnTime'
+  | 'pendingStationSpawn'
+  | 'difficulty'
+  | 'mode'
+  | 'blockSignalling'
+  | 'inventory'
+  | 'week'
+  | 'rewardChoice'
+  | 'reputation'
+  | 'abandonedPassengers'
+  | 'money'
+  | 'ledger'
+  | 'lineHeadways'
+  | 'disruptions'
+  | 'disruptionFeed'
+  | 'specialEvents'
+>;
+
+export interface SaveGame {
+  version: number;
+  cityId: string;
+  savedAt: string; // ISO date, informational only
+  state: SavedGameState;
+}
+
+type RawSave = Record<string, unknown>;
+
+// Migrations upgrading a save from the keyed version to the next one.
+// When the schema changes, bump SAVE_VERSION and add an entry here.
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {};
+
+/**
+ * Pick the saved fields out of the full game state
+ */
+export const pickSavedGameState = (state: SavedGameState): SavedGameState => {
+  return {
+    stations: state.stations,
+    routes: state.routes,
+    trains: state.trains,
+    score: state.score,
+    scoreBreakdown: state.scoreBreakdown,
+    seed: state.seed,
+    rngState: state.rngState,
+    elapsedTime: state.elapsedTime,
+    tick: state.tick,
+    nextEntityId: state.nextEntityId,
+    lastStationSpawnTime: state.lastStationSpawnTime,
+    pendingStationSpawn: state.pendingStationSpawn,
+    difficulty: state.difficulty,
+    mode: state.mode,
+    blockSignalling: state.blockSignalling,
+    inventory: state.inventory,
+    week: state.week,
+    rewardChoice: state.rewardChoice,
+    reputation: state.reputation,
+    abandonedPassengers: state.abandonedPassengers,
+    money: state.money,
+    ledger: state.ledger,
+    lineHeadways: state.lineHeadways,
+    disruptions: state.disruptions,
+    disruptionFeed: state.disruptionFeed,
+    specialEvents: state.specialEvents
+  };
+};
+
+/**
+ * Create a save game snapshot from the current game state
+ */
+export const createSaveGame = (state: SavedGameState, cityId: string): SaveGame => {
+  return {
+    version: SAVE_VERSION,
+    cityId,
+    savedAt: new Date().toISOString(),
+    state: pickSavedGameState(state)
+  };
+};
+
+export const serializeSaveGame = (save: SaveGame): string => {
+  return JSON.stringify(save);
+};
+
+/**
+ * Parse and migrate save data (a JSON string or an already parsed object).
+ * Throws an Error describing the problem if the data is not a usable save.
+ */
+export const parseSaveGame = (data: string | unknown): SaveGame => {
+  let raw: unknown = data;
+  if (typeof data === 'string') {
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      throw new Error('Save file is not valid JSON');
+    }
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Save file is empty or malformed');
+  }
+
+  let save = raw as RawSave;
+  if (typeof save.version !== 'number') {
+    throw new Error('Save file has no version');
+  }
+  if (save.version > SAVE_VERSION) {
+    throw new Error(`Save file version ${save.version} is newer than this game supports (${SAVE_VERSION})`);
+  }
+
+  // Apply migrations one version at a time
+  while ((save.version as number) < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version as number];
+    if (!migrate) {
+      throw new Error(`No migration from save version ${save.version}`);
+    }
+    save = migrate(save);
+  }
+
+  const state = save.state as Partial<SavedGameState> | undefined;
+  if (typeof save.cityId !== 'string' || !state ||
+      !Array.isArray(state.stations) || !Array.isArray(state.routes) || !Array.isArray(state.trains)) {
+    throw new Error('Save file is missing game data');
+  }
+
+  return {
+    version: SAVE_VERSION,
+    cityId: save.cityId,
+    savedAt: typeof save.savedAt === 'string' ? save.savedAt : '',
+    state: {
+      stations: state.stations,
+      routes: state.routes,
+      trains: state.trains,
+      score: state.score ?? 0,
+      scoreBreakdown: state.scoreBreakdown ?? createScoreBreakdown(),
+      seed: state.seed ?? 0,
+      rngState: state.rngState ?? state.seed ?? 0,
+      elapsedTime: state.elapsedTime ?? 0,
+      tick: state.tick ?? 0,
+      nextEntityId: state.nextEntityId ?? 1,
+      lastStationSpawnTime: state.lastStationSpawnTime ?? 0,
+      pendingStationSpawn: state.pendingStationSpawn ?? false,
+      difficulty: state.difficulty ?? OVERLOAD_CONFIG.defaultDifficulty,
+      mode: state.mode ?? GAME_MODE_CONFIG.defaultMode,
+      blockSignalling: state.blockSignalling ?? false,
+      inventory: state.inventory ?? getRemainingInventory(state.routes, state.trains, state.stations),
+      week: state.week ?? 0,
+      rewardChoice: state.rewardChoice ?? null,
+      reputation: state.reputation ?? PATIENCE_CONFIG.maxReputation,
+      abandonedPassengers: state.abandonedPassengers ?? 0,
+      money: state.money ?? getGameModeRules(state.mode ?? GAME_MODE_CONFIG.defaultMode).startingFunds,
+      ledger: state.ledger ?? createLedger(),
+      lineHeadways: state.lineHeadways ?? {},
+      disruptions: state.disruptions ?? [],
+      disruptionFeed: state.disruptionFeed ?? [],
+      specialEvents: state.specialEvents ?? []
+    }
+  };
+};
+
+// Set once the page is about to reload into a different save, so the outgoing game can't overwrite it
+let autosaveSuspended = false;
+
+export const suspendAutosave = (): void => {
+  autosaveSuspended = true;
+};
+
+/**
+ * Write the autosave slot in localStorage
+ */
+export const writeAutosave = (save: SaveGame): void => {
+  if (autosaveSuspended) return;
+  try {
+    localStorage.setItem(AUTOSAVE_STORAGE_KEY, serializeSaveGame(save));
+  } catch (error) {
+    console.warn('Error writing autosave to localStorage:', error);
+  }
+};
+
+/**
+ * Read the autosave slot from localStorage, or null if there is no usable save
+ */
+export const loadAutosave = (): SaveGame | null => {
+  try {
+    const data = localStorage.getItem(AUTOSAVE_STORAGE_KEY);
+    return data ? parseSaveGame(data) : null;
+  } catch (error) {
+    console.warn('Error reading autosave from localStorage:', error);
+    return null;
+  }
+};
+
+export const clearAutosave = (): void => {
+  if (autosaveSuspended) return;
+  try {
+    localStorage.removeItem(AUTOSAVE_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Error clearing autosave from localStorage:', error);
+  }
+};
+
+/**
+ * Offer JSON content to the user as a downloadable file
+ */
+export const downloadJsonFile = (fileName: string, json: string): void => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Offer a save game to the user as a downloadable .json file
+ */
+export const downloadSaveGame = (save: SaveGame): void => {
+  downloadJsonFile(`metromesh-${save.cityId}-${save.savedAt.slice(0, 10)}.json`, serializeSaveGame(save));
+};
@@ -0,0 +1,93 @@
+import { SCORE_CONFIG } from '../config/gameConfig'
+import type { Passenger, ScoreBreakdown, ScoreComponent, Station } from '../types'
+import { calculateDistance } from './coordinates'
+
+// Score model - every delivered passenger earns points in several components, so the score
+// rewards how well the network serves its riders rather than just how many it carries:
+// - deliveries: a flat amount for each passenger who arrives
+// - distance: passenger-kilometres, measured in a straight line from origin to destination
+// - efficiency: the same distance again, scaled by how quickly the journey covered it compared
+//   with the reference speed - waiting on platforms and roundabout lines both count against it
+// - transfers: a bonus for each change of train the journey avoided, up to the allowance
+
+export const SCORE_COMPONENTS: ScoreComponent[] = ['deliveries', 'distance', 'efficiency', 'transfers']
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponent, string> = {
+  deliveries: 'Deliveries',
+  distance: 'Distance',
+  efficiency: 'Network efficiency',
+  transfers: 'Transfers avoided'
+}
+
+export function createScoreBreakdown(): ScoreBreakdown {
+  return {
+    points: { deliveries: 0, distance: 0, efficiency: 0, transfers: 0 },
+    delivered: 0,
+    passengerDistance: 0,
+    journeyTime: 0,
+    transfers: 0
+  }
+}
+
+export function getScoreTotal(breakdown: ScoreBreakdown): number {
+  return SCORE_COMPONENTS.reduce((total, component) => total + breakdown.points[component], 0)
+}
+
+// Straight-line speed as a share of the reference speed, 0 to 1
+function getJourneyEfficiency(distance: number, journeyTime: number): number {
+  if (journeyTime <= 0) return 1
+  return Math.min(1, distance / (journeyTime / 1000) / SCORE_CONFIG.referenceSpeed)
+}
+
+// Points for one passenger arriving at their destination
+export function scoreJourney(
+  passenger: Passenger,
+  destination: Station,
+  stations: Station[],
+  now: number
+): { points: Record<ScoreComponent, number>; distance: number; journeyTime: number } {
+  const origin = stations.find(s => s.id === passenger.origin)
+  const distance = origin ? calculateDistance(origin.position, destination.position) : 0
+  const journeyTime = now - passenger.spawnTime
+  const km = distance / 1000
+  const transfers = passenger.transfers ?? 0
+  return {
+    points: {
+      deliveries: SCORE_CONFIG.pointsPerDelivery,
+      distance: Math.round(km * SCORE_CONFIG.pointsPerKm),
+      efficiency: Math.round(km * SCORE_CONFIG.efficiencyPointsPerKm * getJourneyEfficiency(distance, journeyTime)),
+      transfers: Math.max(0, SCORE_CONFIG.transferAllowance - transfers) * SCORE_CONFIG.pointsPerTransferAvoided
+    },
+    distance,
+    journeyTime
+  }
+}
+
+export function recordDeliveries(
+  breakdown: ScoreBreakdown,
+  passengers: Passenger[],
+  destination: Station,
+  stations: Station[],
+  now: number
+): ScoreBreakdown {
+  if (passengers.length === 0) return breakdown
+  const points = { ...breakdown.points }
+  let { passengerDistance, journeyTime, transfers } = breakdown
+  for (const passenger of passengers) {
+    const journey = scoreJourney(passenger, destination, stations, now)
+    for (const component of SCORE_COMPONENTS) points[component] += journey.points[component]
+    passengerDistance += journey.distance
+    journeyTime += journey.journeyTime
+    transfers += passenger.transfers ?? 0
+  }
+  return { points, delivered: breakdown.delivered + passengers.length, passengerDistance, journeyTime, transfers }
+}
+
+// Average straight-line speed of delivered journeys as a share of the reference speed, 0 to 1
+export function getAverageEfficiency(breakdown: ScoreBreakdown): number {
+  return breakdown.delivered > 0 ? getJourneyEfficiency(breakdown.passengerDistance, breakdown.journeyTime) : 0
+}
+
+export function recordTransfer(passenger: Passenger): Passenger {
+  return { ...passenger, transfers: (passenger.transfers ?? 0) + 1 }
+}
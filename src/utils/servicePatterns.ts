@@ -0,0 +1,119 @@
+import type { Route, RouteBranch, Station, Train } from '../types'
+
+// Service patterns - the ways trains can run along a line.
+// A line's main pattern runs all of its main stations. Each branch leaves the main stations at
+// its junction, so its pattern runs the main stations up to the junction and then the branch's own.
+// A train runs one pattern and its position is an index into that pattern's station list.
+
+export interface ServicePattern {
+  key: string // Unique across all lines - the main pattern uses the line's ID
+  routeId: string
+  branchId: string | null
+  stations: string[]
+}
+
+export function getServicePatternKey(routeId: string, branchId: string | null): string {
+  return branchId ? `${routeId}/${branchId}` : routeId
+}
+
+export function getBranchPatternStations(route: Pick<Route, 'stations'>, branch: RouteBranch): string[] {
+  return [...route.stations.slice(0, branch.junctionIndex + 1), ...branch.stations]
+}
+
+export function getServicePatterns(route: Route): ServicePattern[] {
+  return [
+    { key: route.id, routeId: route.id, branchId: null, stations: route.stations },
+    ...route.branches.map(branch => ({
+      key: getServicePatternKey(route.id, branch.id),
+      routeId: route.id,
+      branchId: branch.id,
+      stations: getBranchPatternStations(route, branch)
+    }))
+  ]
+}
+
+// Stations of the pattern a train runs - the main stations if its branch no longer exists
+export function getTrainPatternStations(route: Route, train: Pick<Train, 'branchId'>): string[] {
+  const branch = train.branchId ? route.branches.find(b => b.id === train.branchId) : undefined
+  return branch ? getBranchPatternStations(route, branch) : route.stations
+}
+
+export function getTrainPatternKey(train: Pick<Train, 'routeId' | 'branchId'>): string {
+  return getServicePatternKey(train.routeId, train.branchId)
+}
+
+// Stopping patterns - express trains run through the line's express-skipped stations, but always
+// call at the ends of their pattern, where they turn round. Passengers see an express as a
+// service of its own, keyed like its pattern with an express suffix.
+
+export interface LineService extends ServicePattern {
+  isExpress: boolean
+  callingStations: string[] // Stations the service stops at, in order
+}
+
+export function callsAtStation(route: Pick<Route, 'expressSkips'>, patternStations: string[], index: number, isExpress: boolean): boolean {
+  if (!isExpress || index <= 0 || index >= patternStations.length - 1) return true
+  return !route.expressSkips.includes(patternStations[index])
+}
+
+export function getServiceKey(patternKey: string, isExpress: boolean): string {
+  return isExpress ? `${patternKey}/express` : patternKey
+}
+
+export function getTrainServiceKey(train: Pick<Train, 'routeId' | 'branchId' | 'isExpress'>): string {
+  return getServiceKey(getTrainPatternKey(train), train.isExpress)
+}
+
+// Every service on a line: each pattern stopping everywhere, plus its express once the line skips stations
+export function getLineServices(route: Route): LineService[] {
+  const expressOptions = route.expressSkips.length > 0 ? [false, true] : [false]
+  return getServicePatterns(route).flatMap(pattern => expressOptions.map(isExpress => ({
+    ...pattern,
+    key: getServiceKey(pattern.key, isExpress),
+    isExpress,
+    callingStations: pattern.stations.filter((_, index) => callsAtStation(route, pattern.stations, index, isExpress))
+  })))
+}
+
+// Express trains can only run through stations that aren't the end of any of the line's patterns
+export function canExpressSkipStation(route: Route, stationId: string): boolean {
+  return routeServesStation(route, stationId) && getServicePatterns(route).every(pattern =>
+    pattern.stations[0] !== stationId && pattern.stations[pattern.stations.length - 1] !== stationId
+  )
+}
+
+// Drop express skips the line can no longer run through, after it loses stations
+export function pruneExpressSkips<T extends Route>(route: T): T {
+  return { ...route, expressSkips: route.expressSkips.filter(id => canExpressSkipStation(route, id)) }
+}
+
+// Track drawn for a line: the main stations, plus each branch from its junction onwards,
+// so the trunk shared by several patterns is laid (and drawn) only once
+export function getRouteTracks<T extends Pick<Route, 'id' | 'stations' | 'branches'>>(route: T): T[] {
+  return [
+    { ...route, branches: [] },
+    ...route.branches.map(branch => ({
+      ...route,
+      id: getServicePatternKey(route.id, branch.id),
+      stations: [route.stations[branch.junctionIndex], ...branch.stations],
+      branches: []
+    }))
+  ]
+}
+
+// Whether the line calls at a station on any of its patterns
+export function routeServesStation(route: Route, stationId: string): boolean {
+  return route.stations.includes(stationId) || route.branches.some(branch => branch.stations.includes(stationId))
+}
+
+// Station's name, or a short ID for stations without one
+export function getStationName(stations: Array<Pick<Station, 'id' | 'name'>>, stationId: string): string {
+  const station = stations.find(s => s.id === stationId)
+  return station?.name ? station.name : `Stn ${stationId.slice(-4)}`
+}
+
+// Name of a pattern from the stations at its ends, e.g. "Camden – Brixton"
+export function getServicePatternName(pattern: Pick<ServicePattern, 'stations'>, stations: Array<Pick<Station, 'id' | 'name'>>): string {
+  const label = (stationId: string) => getStationName(stations, stationId)
+  return `${label(pattern.stations[0])} – ${label(pattern.stations[pattern.stations.length - 1])}`
+}
@@ -0,0 +1,110 @@
+import { SIGNALLING_CONFIG } from '../config/gameConfig'
+import type { Route, Train } from '../types'
+import type { TrainMovementNetwork } from './routeNetworkCalculator'
+import { getServicePatterns, getTrainPatternKey, getTrainPatternStations } from './servicePatterns'
+import { isCircularRoute } from './routeEditing'
+
+// Block signalling - an optional realism rule for track shared by several lines.
+// A segment between two stations that more than one line runs along is a signalled block with a
+// track each way, and each track holds SIGNALLING_CONFIG.blockCapacity trains. Trains wait at the
+// station before a full block until it clears, so busy shared corridors hold trains up.
+// Track only one line uses is left unsignalled - its trains keep their spacing with headway holds.
+
+// Key for the segment between two stations, whichever way round it is run
+export function getSegmentKey(stationA: string, stationB: string): string {
+  return stationA < stationB ? `${stationA}~${stationB}` : `${stationB}~${stationA}`
+}
+
+// Block key for the track running from one station to the next
+export function getBlockKey(fromStationId: string, toStationId: string): string {
+  return `${fromStationId}>${toStationId}`
+}
+
+// Segments run by more than one line, whichever way round they run them
+export function findSharedSegments(routes: Route[]): Set<string> {
+  const segmentLines = new Map<string, Set<string>>()
+  for (const pattern of routes.flatMap(getServicePatterns)) {
+    for (let i = 0; i < pattern.stations.length - 1; i++) {
+      const key = getSegmentKey(pattern.stations[i], pattern.stations[i + 1])
+      if (!segmentLines.has(key)) segmentLines.set(key, new Set())
+      segmentLines.get(key)!.add(pattern.routeId)
+    }
+  }
+  return new Set([...segmentLines].filter(([, lines]) => lines.size > 1).map(([key]) => key))
+}
+
+// Which of a pattern's segments are shared with other lines
+export function getSharedSegmentFlags(patternStations: string[], sharedSegments: Set<string>): boolean[] {
+  return patternStations.slice(0, -1).map((stationId, i) => sharedSegments.has(getSegmentKey(stationId, patternStations[i + 1])))
+}
+
+// Segment a train standing at a station runs along next, as indexes into its pattern's stations,
+// or null at the end of the pattern. Round a loop the shared end station leads on to the segment at the other end.
+export function getSegmentAhead(
+  stationCount: number,
+  stationIndex: number,
+  direction: 1 | -1,
+  isLoop: boolean
+): { from: number; to: number } | null {
+  const maxPosition = stationCount - 1
+  let from = stationIndex
+  if (isLoop && direction === 1 && from === maxPosition) from = 0
+  if (isLoop && direction === -1 && from === 0) from = maxPosition
+  const to = from + direction
+  return to >= 0 && to <= maxPosition ? { from, to } : null
+}
+
+// Signalled block a train standing at a station enters next, or null when the track ahead is unsignalled
+export function getBlockAhead(
+  patternStations: string[],
+  sharedSegments: boolean[],
+  stationIndex: number,
+  direction: 1 | -1,
+  isLoop: boolean
+): string | null {
+  const segment = getSegmentAhead(patternStations.length, stationIndex, direction, isLoop)
+  if (!segment || !sharedSegments[Math.min(segment.from, segment.to)]) return null
+  return getBlockKey(patternStations[segment.from], patternStations[segment.to])
+}
+
+// Signalled block a running train is in - none while it stands at a station
+function getOccupiedBlock(train: Train, patternStations: string[], sharedSegments: boolean[]): string | null {
+  if (Number.isInteger(train.position)) return null
+  const segmentIndex = train.direction === 1 ? Math.floor(train.position) : Math.ceil(train.position) - 1
+  if (!sharedSegments[segmentIndex]) return null
+  return train.direction === 1
+    ? getBlockKey(patternStations[segmentIndex], patternStations[segmentIndex + 1])
+    : getBlockKey(patternStations[segmentIndex + 1], patternStations[segmentIndex])
+}
+
+// Trains in each signalled block
+export function getBlockOccupancy(trains: Train[], routes: Route[], network: TrainMovementNetwork | null): Map<string, number> {
+  const occupancy = new Map<string, number>()
+  for (const train of trains) {
+    const route = routes.find(r => r.id === train.routeId)
+    const movementRoute = network?.routes.get(getTrainPatternKey(train))
+    if (!route || !movementRoute) continue
+    const block = getOccupiedBlock(train, getTrainPatternStations(route, train), movementRoute.sharedSegments)
+    if (block) occupancy.set(block, (occupancy.get(block) || 0) + 1)
+  }
+  return occupancy
+}
+
+export function isBlockFull(occupancy: Map<string, number>, block: string | null): boolean {
+  return block !== null && (occupancy.get(block) || 0) >= SIGNALLING_CONFIG.blockCapacity
+}
+
+// Trains standing at a station whose signal shows danger - held up by the block ahead
+export function findTrainsAtSignals(trains: Train[], routes: Route[], network: TrainMovementNetwork | null): Set<string> {
+  const occupancy = getBlockOccupancy(trains, routes, network)
+  const held = new Set<string>()
+  for (const train of trains) {
+    const route = routes.find(r => r.id === train.routeId)
+    const movementRoute = network?.routes.get(getTrainPatternKey(train))
+    if (!route || !movementRoute || !Number.isInteger(train.position)) continue
+    const patternStations = getTrainPatternStations(route, train)
+    const block = getBlockAhead(patternStations, movementRoute.sharedSegments, train.position, train.direction, isCircularRoute(patternStations))
+    if (isBlockFull(occupancy, block)) held.add(train.id)
+  }
+  return held
+}
@@ -0,0 +1,490 @@
+import { ECONOMY_CONFIG, GAME_CONFIG, PATIENCE_CONFIG, RESOURCE_CONFIG, TRAIN_CONFIG } from '../config/gameConfig'
+import { calculatePassengerRoutingNetwork, isPassengerDestination, shouldBoardRoute, shouldTransferAt } from './passengerRouting'
+import { pickDestinationType } from './stationTypes'
+import { getCycleLength, getCyclePosition, getGapAhead } from './trainSpacing'
+import { createSeededRandom, scaleProbability, type SeededRandom } from './random'
+import { adjustInventory, pickRewardOptions } from './resources'
+import { hasOverloadExpired, isStationOverloaded } from './overload'
+import { getGameModeRules } from './gameModes'
+import { getDemandMultiplier, getGameClock } from './clock'
+import { drainPatience, getReputationDemandMultiplier, hasGivenUp, isTrainCrowded, updateReputation } from './reputation'
+import { calculateODMatrix, getTripRate, pickTripDestination } from './demandModel'
+import { getEventTripRates, isEventRunning, rollSpecialEvent } from './specialEvents'
+import { getDistanceToNextStop, getDwellTime, getNextSpeed, kmhToMs } from './trainKinematics'
+import { isCircularRoute } from './routeEditing'
+import { getPlatformKey, recordDeparture, shouldHoldTrain } from './headway'
+import { getBlockAhead, getBlockOccupancy, isBlockFull } from './signalling'
+import {
+  addFeedEvents, affectsRouting, createDisruptionEvent, getBrokenDownTrains, getClosedStations, getSuspendedSegments,
+  isSegmentAheadSuspended, pruneDisruptions, rollDisruption
+} from './disruptions'
+import { getScoreTotal, recordDeliveries, recordTransfer } from './scoring'
+import { closeLedgerWeek, getRunningCosts, isBankrupt, recordTransaction } from './economy'
+import { callsAtStation, getTrainPatternKey, getTrainPatternStations, getTrainServiceKey } from './servicePatterns'
+import type { Passenger, SimulationState, Station, StationType, Train } from '../types'
+
+// Deterministic simulation core.
+// stepSimulation is a pure function of (state, dt): all randomness comes from the seeded
+// generator stored in the state and all timing from the simulated clock, never from
+// Math.random() or Date.now(). This keeps runs reproducible from their seed, testable
+// headlessly in Node and able to run faster than real time.
+
+// Fixed step used by runSimulation; the game loop advances by the same amount
+export const SIMULATION_STEP_MS = GAME_CONFIG.gameLoopInterval
+
+// Replace a station's waiting passengers, starting or clearing its overload timer
+export function updateStationPassengers(station: Station, passengers: Passenger[], now: number): Station {
+  const updated = { ...station, passengers }
+  return {
+    ...updated,
+    overloadedSince: isStationOverloaded(updated) ? (station.overloadedSince ?? now) : undefined
+  }
+}
+
+// Create a passenger at a station heading for a given type, or any other type present in the city.
+// Event-goers head for one station, so they may set off from a station of the same type
+export function createPassenger(
+  id: string,
+  origin: Station,
+  stations: Station[],
+  now: number,
+  random: SeededRandom,
+  destinationType?: StationType,
+  destinationStationId?: string
+): Passenger | null {
+  const requestedType = destinationType ?? pickDestinationType(origin, stations, random.next)
+  if (!requestedType) return null // Nowhere to travel to yet
+  if (destinationStationId ? destinationStationId === origin.id : requestedType === origin.type) return null
+
+  return {
+    id,
+    origin: origin.id,
+    destinationType: requestedType,
+    ...(destinationStationId ? { destinationStationId } : {}),
+    spawnTime: now,
+    patience: PATIENCE_CONFIG.initialPatience
+  }
+}
+
+// Whether the next train ahead on the same service pattern (and direction round a loop) is closer than the minimum headway
+function isTooCloseToTrainAhead(train: Train, trains: Train[], stationCount: number, isCircular: boolean): boolean {
+  const siblings = trains.filter(t =>
+    t.routeId === train.routeId && t.branchId === train.branchId && t.id !== train.id &&
+    (!isCircular || t.direction === train.direction)
+  )
+  if (siblings.length === 0) return false
+
+  const cycleLength = getCycleLength(stationCount, isCircular)
+  const minGap = (cycleLength / (siblings.length + 1)) * TRAIN_CONFIG.minHeadwayRatio
+  const gapAhead = getGapAhead(
+    getCyclePosition(train, stationCount, isCircular),
+    siblings.map(t => getCyclePosition(t, stationCount, isCircular)),
+    cycleLength
+  )
+  return gapAhead < minGap
+}
+
+// Advance every train by dt, exchanging passengers at stations
+function stepTrains(state: SimulationState, dt: number, now: number) {
+  let scoreBreakdown = state.scoreBreakdown
+  let deliveredCount = 0
+  let abandonedCount = 0
+  // Station updates are accumulated here so several trains stopping in the
+  // same step don't overwrite each other's passenger exchanges
+  let updatedStations = state.stations
+  let lineHeadways = state.lineHeadways
+  // Trains in each signalled block - trains entering a block this step are added as they go
+  const blockOccupancy = state.blockSignalling
+    ? getBlockOccupancy(state.trains, state.routes, state.trainMovementNetwork)
+    : new Map<string, number>()
+  const brokenDownTrains = getBrokenDownTrains(state.disruptions)
+  const closedStations = getClosedStations(state.disruptions)
+  const suspendedSegments = getSuspendedSegments(state.disruptions)
+
+  const updatedTrains = state.trains.map((train): Train => {
+    // A broken-down train stands where it is until repaired, its riders losing patience
+    if (brokenDownTrains.has(train.id)) {
+      return { ...train, speed: 0, passengers: drainPatience(train.passengers, dt) }
+    }
+
+    const route = state.routes.find(r => r.id === train.routeId)
+
+    // Use train movement network for position calculations - each service pattern has its own path
+    const patternKey = getTrainPatternKey(train)
+    const movementRoute = state.trainMovementNetwork?.routes.get(patternKey)
+    const coordinates = movementRoute?.routeCoordinates || []
+
+    if (!route || coordinates.length < 2) return train
+    const patternStations = getTrainPatternStations(route, train)
+    const serviceKey = getTrainServiceKey(train) // Express trains are a service of their own for passengers
+    // Express trains run through the stations they skip, and every train runs through closed ones
+    const callsAt = (stationIndex: number) => callsAtStation(route, patternStations, stationIndex, train.isExpress) &&
+      !closedStations.has(patternStations[stationIndex])
+
+    // Distance-based movement - see utils/trainKinematics.ts
+    const maxSpeed = kmhToMs(train.speedKmh || TRAIN_CONFIG.defaultSpeedKmh)
+
+    const stationPositions = movementRoute?.stationPositions || []
+    const segmentLengths = movementRoute?.segmentLengths || []
+    if (stationPositions.length < 2) return train // Need at least 2 stations
+
+    let newPosition = train.position
+    let newDirection = train.direction
+    let newSpeed = train.speed ?? 0
+    let newWaitTime = train.waitTime
+    let newPassengers = train.passengers
+    let newLastStationVisited = train.lastStationVisited
+
+    // Check if route is circular (first and last station are the same)
+    const isLoop = isCircularRoute(patternStations)
+    const maxPosition = stationPositions.length - 1
+    const sharedSegments = movementRoute?.sharedSegments || []
+
+    // With block signalling, the signal at a station shows danger while the block beyond it is full.
+    // A signal failure holds it at danger whether or not the track is signalled
+    const getSignalledBlock = (stationIndex: number) => state.blockSignalling
+      ? getBlockAhead(patternStations, sharedSegments, stationIndex, train.direction, isLoop)
+      : null
+    const isSignalAtDanger = (stationIndex: number) => isBlockFull(blockOccupancy, getSignalledBlock(stationIndex)) ||
+      isSegmentAheadSuspended(suspendedSegments, patternStations, stationIndex, train.direction, isLoop)
+
+    // Check if train is very close to a station (within 0.02 units)
+    const nearestStationIndex = Math.round(train.position)
+    const distanceToNearestStation = Math.abs(train.position - nearestStationIndex)
+    const isAtStation = distanceToNearestStation < 0.02
+    // Stopped at the platform with the doors closed - the next move is a departure
+    const isReadyToDepart = isAtStation && train.lastStationVisited === nearestStationIndex && newSpeed === 0
+    const platformKey = getPlatformKey(patternKey, patternStations[nearestStationIndex] ?? '', train.direction)
+    const isPatternEnd = nearestStationIndex === 0 || nearestStationIndex === maxPosition
+
+    // Handle station stops and passenger exchange - express trains run on through the stations they skip
+    if (isAtStation && nearestStationIndex !== train.lastStationVisited && nearestStationIndex >= 0 &&
+        nearestStationIndex < stationPositions.length && callsAt(nearestStationIndex)) {
+      if (newWaitTime <= 0) {
+        // Just arrived - passengers wanting this station's type get off and count as delivered,
+        // passengers whose plan switches lines here get off to wait for their next train and
+        // riders who have run out of patience get off and leave the network
+        const stationId = patternStations[nearestStationIndex]
+        const station = updatedStations.find(s => s.id === stationId)
+        let transferring: Passenger[] = []
+        let exchanged = 0
+        if (station) {
+          const delivered = newPassengers.filter(p => isPassengerDestination(p, station))
+          const abandoning = newPassengers.filter(p => !delivered.includes(p) && hasGivenUp(p))
+          transferring = newPassengers.filter(p =>
+            !delivered.includes(p) && !abandoning.includes(p) &&
+            shouldTransferAt(state.passengerRoutingNetwork, serviceKey, stationId, p)
+          )
+          newPassengers = newPassengers.filter(p => !delivered.includes(p) && !abandoning.includes(p) && !transferring.includes(p))
+          scoreBreakdown = recordDeliveries(scoreBreakdown, delivered, station, updatedStations, now)
+          deliveredCount += delivered.length
+          abandonedCount += abandoning.length
+          exchanged += delivered.length + abandoning.length + transferring.length
+        }
+
+        // Pick up waiting passengers whose shortest-transfer path uses this train's service
+        if (station && (station.passengers.length > 0 || transferring.length > 0)) {
+          const freeSeats = Math.max(0, train.capacity - newPassengers.length)
+          const boarding: Passenger[] = []
+          const waiting: Passenger[] = []
+          for (const passenger of station.passengers) {
+            const canReachDestination = shouldBoardRoute(state.passengerRoutingNetwork, serviceKey, stationId, passenger)
+            if (canReachDestination && boarding.length < freeSeats) {
+              boarding.push(passenger)
+            } else {
+              waiting.push(passenger)
+            }
+          }
+          waiting.push(...transferring.map(recordTransfer))
+          exchanged += boarding.length
+
+          if (boarding.length > 0 || transferring.length > 0) {
+            newPassengers = [...newPassengers, ...boarding]
+            updatedStations = updatedStations.map(s => s.id === stationId
+              ? updateStationPassengers(s, waiting, now) // Transferring passengers can push a platform over the limit too
+              : s
+            )
+          }
+        }
+
+        // Come to rest on the platform; busier stops take longer. A loop's shared end station
+        // is recorded at the end the train leaves from, so it isn't visited twice
+        const isLoopEnd = isLoop && (nearestStationIndex === 0 || nearestStationIndex === maxPosition)
+        const stopIndex = isLoopEnd ? (train.direction === 1 ? 0 : maxPosition) : nearestStationIndex
+        newPosition = stopIndex
+        newSpeed = 0
+        newWaitTime = getDwellTime(exchanged)
+        newLastStationVisited = stopIndex
+      } else {
+        // Still waiting at station
+        newWaitTime -= dt
+      }
+    } else if (newWaitTime > 0) {
+      // Continue waiting at station
+      newWaitTime -= dt
+    } else if (isReadyToDepart && (isSignalAtDanger(nearestStationIndex) || (route.headwayControl === 'off'
+      ? isTooCloseToTrainAhead(train, state.trains, patternStations.length, isLoop)
+      : shouldHoldTrain(route, lineHeadways[route.id], platformKey, isPatternEnd, now)))) {
+      // Ready to depart, but the block ahead is occupied or suspended, the train ahead is too close or the line's
+      // headway or timetable says wait - hold and re-open the doors so the line's trains spread out
+      // again instead of bunching
+      newLastStationVisited = -1
+    } else if (Number.isInteger(train.position) && isSignalAtDanger(nearestStationIndex)) {
+      // Running through a station it doesn't call at, but the block ahead is occupied or suspended - wait at the signal
+      newSpeed = 0
+    } else {
+      if (isReadyToDepart) {
+        lineHeadways = { ...lineHeadways, [route.id]: recordDeparture(lineHeadways[route.id], platformKey, now) }
+      }
+      // Entering a signalled block claims it for the rest of the step
+      const enteringBlock = Number.isInteger(train.position) ? getSignalledBlock(nearestStationIndex) : null
+      if (enteringBlock) blockOccupancy.set(enteringBlock, (blockOccupancy.get(enteringBlock) || 0) + 1)
+
+      // Normal movement between stations
+      // Only reset lastStationVisited when train is far enough from any station
+      // to prevent multiple visits to the same station due to position oscillation
+      if (distanceToNearestStation > 0.1) {
+        newLastStationVisited = -1 // Reset when sufficiently far from any station
+      }
+
+      // A loop's first and last stations are the same, so leaving one end carries on from the other
+      let position = train.position
+      if (isLoop && train.direction === 1 && position >= maxPosition) position = 0
+      if (isLoop && train.direction === -1 && position <= 0) position = maxPosition
+
+      // Run along the current segment by distance, braking for the next station the train calls at
+      // or whose signal shows danger
+      const segmentIndex = Math.min(maxPosition - 1, Math.max(0,
+        train.direction === 1 ? Math.floor(position) : Math.ceil(position) - 1
+      ))
+      const segmentLength = segmentLengths[segmentIndex] || 1
+      const nextStation = train.direction === 1 ? segmentIndex + 1 : segmentIndex
+      const distanceToNextStation = Math.abs(nextStation - position) * segmentLength
+      const distanceToStop = getDistanceToNextStop(position, train.direction, segmentLengths,
+        stationIndex => callsAt(stationIndex) || isSignalAtDanger(stationIndex)
+      )
+
+      newSpeed = getNextSpeed(newSpeed, maxSpeed, distanceToStop, dt)
+      const travelled = newSpeed * (dt / 1000)
+      newPosition = travelled >= distanceToNextStation
+        ? nextStation // Reaches the station this step - a stop is handled on the next one
+        : position + (travelled / segmentLength) * train.direction
+
+      // Non-circular route: reverse direction at endpoints
+      if (!isLoop) {
+        if (newPosition >= maxPosition) {
+          newPosition = maxPosition
+          newDirection = -1
+        } else if (newPosition <= 0) {
+          newPosition = 0
+          newDirection = 1
+        }
+      }
+    }
+
+    // Riders on a crowded train lose patience as they go
+    if (isTrainCrowded({ passengers: newPassengers, capacity: train.capacity })) {
+      newPassengers = drainPatience(newPassengers, dt * PATIENCE_CONFIG.crowdedDrainRate)
+    }
+
+    return {
+      ...train,
+      position: newPosition,
+      direction: newDirection,
+      passengers: newPassengers,
+      speed: newSpeed,
+      waitTime: newWaitTime,
+      lastStationVisited: newLastStationVisited
+    }
+  })
+
+  return {
+    stations: updatedStations,
+    trains: updatedTrains,
+    score: state.score + getScoreTotal(scoreBreakdown) - getScoreTotal(state.scoreBreakdown),
+    scoreBreakdown,
+    lineHeadways,
+    delivered: deliveredCount,
+    abandoned: abandonedCount
+  }
+}
+
+// Advance the simulation by dt milliseconds of simulated time
+export function stepSimulation(state: SimulationState, dt: number): SimulationState {
+  // The simulation waits while the player picks this week's reward
+  if (state.isGameOver || state.rewardChoice || dt <= 0) return state
+
+  const random = createSeededRandom(state.rngState)
+  const now = state.elapsedTime + dt
+  const rules = getGameModeRules(state.mode)
+  const clock = getGameClock(now)
+  const demand = getDemandMultiplier(clock.hour)
+  let nextEntityId = state.nextEntityId
+
+  // Disruptions clear once their time is up, or when what they hit leaves the network, and new ones
+  // strike at random - see utils/disruptions.ts
+  const ongoing = pruneDisruptions(state.disruptions, state.routes, state.trains, state.stations)
+  const cleared = ongoing.filter(disruption => disruption.endTime <= now)
+  let disruptions = ongoing.filter(disruption => disruption.endTime > now)
+  const started = rollDisruption(`disruption-${nextEntityId}`, state.routes, state.trains, state.stations,
+    disruptions, rules.disruptionFrequency, now, dt, random)
+  if (started) {
+    nextEntityId++
+    disruptions = [...disruptions, started]
+  }
+  const disruptionFeed = addFeedEvents(state.disruptionFeed, [
+    ...cleared.map(disruption => createDisruptionEvent(disruption, state.routes, state.trains, state.stations, now, true)),
+    ...(started ? [createDisruptionEvent(started, state.routes, state.trains, state.stations, now, false)] : [])
+  ])
+
+  // Passengers reroute round stations and segments that close or reopen
+  const routingChanges = state.disruptions.filter(disruption => !disruptions.includes(disruption))
+  const passengerRoutingNetwork = affectsRouting(routingChanges) || (started && affectsRouting([started]))
+    ? calculatePassengerRoutingNetwork(state.routes, state.stations, state.trainMovementNetwork, disruptions)
+    : state.passengerRoutingNetwork
+
+  // Move trains and exchange passengers
+  const trainStep = stepTrains({ ...state, disruptions, passengerRoutingNetwork }, dt, now)
+  let abandoned = trainStep.abandoned
+
+  // Waiting passengers lose patience, and those who run out leave the station
+  let stations = trainStep.stations.map(station => {
+    if (station.passengers.length === 0) return station
+    const waiting = drainPatience(station.passengers, dt)
+    const staying = waiting.filter(passenger => !hasGivenUp(passenger))
+    abandoned += waiting.length - staying.length
+    return updateStationPassengers(station, staying, now)
+  })
+  const reputation = updateReputation(state.reputation, trainStep.delivered, abandoned)
+
+  // Every delivered passenger pays their fare - see utils/economy.ts
+  const fares = trainStep.delivered * ECONOMY_CONFIG.fare
+  let money = state.money + fares
+  let ledger = recordTransaction(state.ledger, 'fares', fares)
+
+  // Venues announce events a day ahead - finished events, and those at venues no longer in the city, are dropped
+  let specialEvents = state.specialEvents.filter(event => event.endTime > now && stations.some(s => s.id === event.stationId))
+  for (const station of stations) {
+    if (!station.venue || specialEvents.some(event => event.stationId === station.id)) continue
+    const event = rollSpecialEvent(`event-${nextEntityId}`, station, now, dt, random)
+    if (event) {
+      nextEntityId++
+      specialEvents = [...specialEvents, event]
+    }
+  }
+  const runningEvents = specialEvents
+    .filter(event => isEventRunning(event, now))
+    .map(event => ({ venue: stations.find(s => s.id === event.stationId)!, tripRates: getEventTripRates(event, stations) }))
+
+  // Spawn passengers from the gravity demand model, each heading for the type of the station
+  // their trip is to - see utils/demandModel.ts
+  const spawnedPassengers = new Map<string, Passenger[]>()
+  const addSpawnedPassenger = (stationId: string, passenger: Passenger | null) => {
+    if (!passenger) return
+    nextEntityId++
+    spawnedPassengers.set(stationId, [...(spawnedPassengers.get(stationId) || []), passenger])
+  }
+  const odMatrix = calculateODMatrix(stations)
+  const closedStations = getClosedStations(disruptions)
+  for (let i = 0; i < stations.length; i++) {
+    const station = stations[i]
+    // Without a game over, full stations just stop filling up, and nobody arrives at a closed station
+    if ((!rules.canFail && isStationOverloaded(station)) || closedStations.has(station.id)) continue
+
+    // The station's trips scaled by the game mode, the time of day and the city's opinion of the network
+    const spawnRate = getTripRate(odMatrix, i) * rules.passengerSpawnMultiplier * demand *
+      getReputationDemandMultiplier(reputation)
+
+    if (random.next() < scaleProbability(spawnRate, dt, GAME_CONFIG.gameLoopInterval)) {
+      const destination = pickTripDestination(odMatrix, i, random.next)
+      addSpawnedPassenger(station.id, destination === null
+        ? null
+        : createPassenger(`passenger-${nextEntityId}`, station, stations, now, random, stations[destination].type))
+    }
+
+    // Event-goers head for the venue itself, on top of the usual trips
+    for (const { venue, tripRates } of runningEvents) {
+      if (random.next() < scaleProbability(tripRates[i], dt, GAME_CONFIG.gameLoopInterval)) {
+        addSpawnedPassenger(station.id, createPassenger(`passenger-${nextEntityId}`, station, stations, now, random, venue.type, venue.id))
+      }
+    }
+  }
+  if (spawnedPassengers.size > 0) {
+    stations = stations.map(station => {
+      const passengers = spawnedPassengers.get(station.id)
+      return passengers ? updateStationPassengers(station, [...station.passengers, ...passengers], now) : station
+    })
+  }
+
+  // Request a new station with timing constraints; placement needs the map so it is done by the caller
+  let pendingStationSpawn = state.pendingStationSpawn
+  if (!pendingStationSpawn && rules.stationSpawning && stations.length < GAME_CONFIG.maxStations) {
+    const timeSinceLastStationSpawn = now - state.lastStationSpawnTime
+    const hasMinDelayPassed = timeSinceLastStationSpawn > GAME_CONFIG.minStationSpawnDelay
+    const shouldForceSpawn = timeSinceLastStationSpawn > GAME_CONFIG.maxStationSpawnDelay
+    const shouldRandomSpawn = random.next() < scaleProbability(GAME_CONFIG.stationSpawnProbability, dt, GAME_CONFIG.gameLoopInterval)
+    pendingStationSpawn = hasMinDelayPassed && (shouldRandomSpawn || shouldForceSpawn)
+  }
+
+  // A new week brings a locomotive and a choice of upgrades, and the bill for running the trains
+  let { inventory, week } = state
+  let rewardChoice: SimulationState['rewardChoice'] = null // Steps only run once any earlier choice is made
+  if (clock.week > week) {
+    week = clock.week
+    const runningCosts = getRunningCosts(trainStep.trains)
+    money -= runningCosts
+    ledger = closeLedgerWeek(recordTransaction(ledger, 'operating', runningCosts))
+    if (rules.weeklyRewards) {
+      inventory = adjustInventory(inventory, 'locomotives', RESOURCE_CONFIG.weeklyLocomotives)
+      const options = pickRewardOptions(inventory, state.routes.length, random)
+      rewardChoice = options.length > 0 ? options : null
+    }
+  }
+
+  // Check for game over condition: any station at capacity for longer than the grace period
+  const overloadedStation = rules.canFail
+    ? stations.find(station => hasOverloadExpired(station, now, state.difficulty))
+    : undefined
+  // ...or running costs taking the network past its overdraft
+  const isBroke = rules.canFail && isBankrupt(money)
+
+  return {
+    ...state,
+    stations,
+    trains: trainStep.trains,
+    score: trainStep.score,
+    scoreBreakdown: trainStep.scoreBreakdown,
+    lineHeadways: trainStep.lineHeadways,
+    disruptions,
+    disruptionFeed,
+    specialEvents,
+    passengerRoutingNetwork,
+    reputation,
+    abandonedPassengers: state.abandonedPassengers + abandoned,
+    money,
+    ledger,
+    elapsedTime: now,
+    tick: state.tick + 1,
+    rngState: random.getState(),
+    nextEntityId,
+    pendingStationSpawn,
+    inventory,
+    week,
+    rewardChoice,
+    isGameOver: !!overloadedStation || isBroke,
+    gameOverReason: overloadedStation
+      ? `Station ${overloadedStation.name} was overloaded for too long!`
+      : isBroke ? 'The network went bankrupt!' : null
+  }
+}
+
+// Run the simulation for a duration using fixed steps - used for headless runs and fast-forwarding.
+// Any remainder shorter than one step is left for the next call.
+export function runSimulation(state: SimulationState, duration: number, stepMs: number = SIMULATION_STEP_MS): SimulationState {
+  let current = state
+  const steps = Math.floor(duration / stepMs)
+  for (let i = 0; i < steps && !current.isGameOver; i++) {
+    current = stepSimulation(current, stepMs)
+  }
+  return current
+}
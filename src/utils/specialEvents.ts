@@ -0,0 +1,94 @@
+import { DEMAND_CONFIG, GAME_CONFIG, VENUE_CONFIG } from '../config/gameConfig'
+import type { EventVenueType, SpecialEvent, Station, VenueType } from '../types'
+import { calculateDistance } from './coordinates'
+import { getDistanceDecay, getStationMass } from './demandModel'
+import { scaleProbability, type SeededRandom } from './random'
+
+// Special demand - venues are special stations drawing more than their building density suggests.
+// Airports draw steady trips from further afield than other stations (see utils/demandModel.ts).
+// Stadiums and concert halls announce timed events a day ahead; while an event runs, passengers
+// from across the city head for that one venue, so there is time to add capacity before the crowds arrive.
+
+export const VENUE_LABELS: Record<VenueType, string> = {
+  stadium: 'Stadium',
+  concertHall: 'Concert hall',
+  airport: 'Airport'
+}
+
+export const VENUE_ICONS: Record<VenueType, string> = {
+  stadium: '🏟️',
+  concertHall: '🎵',
+  airport: '✈️'
+}
+
+const VENUE_TYPES = Object.keys(VENUE_LABELS) as VenueType[]
+
+export function isEventVenue(venue: VenueType | undefined): venue is EventVenueType {
+  return !!venue && venue in VENUE_CONFIG.events
+}
+
+/**
+ * Pick a venue for a new station, or undefined for an ordinary one.
+ * The first stations are never venues, and each venue appears at most once.
+ */
+export function pickStationVenue(
+  existingStations: Array<Pick<Station, 'venue'>>,
+  isInitialStation: boolean,
+  random: () => number
+): VenueType | undefined {
+  if (isInitialStation) return undefined
+  const existingVenues = new Set(existingStations.map(s => s.venue))
+  const availableVenues = VENUE_TYPES.filter(venue => !existingVenues.has(venue))
+  if (availableVenues.length === 0 || random() >= VENUE_CONFIG.venueProbability) return undefined
+  return availableVenues[Math.floor(random() * availableVenues.length)]
+}
+
+export function isEventRunning(event: Pick<SpecialEvent, 'startTime' | 'endTime'>, now: number): boolean {
+  return now >= event.startTime && now < event.endTime
+}
+
+// Maybe announce an event at a venue with nothing planned, to start a day later
+export function rollSpecialEvent(
+  id: string,
+  station: Pick<Station, 'id' | 'venue'>,
+  now: number,
+  dt: number,
+  random: SeededRandom
+): SpecialEvent | null {
+  if (!isEventVenue(station.venue)) return null
+  if (random.next() >= scaleProbability(VENUE_CONFIG.eventProbability, dt, GAME_CONFIG.gameLoopInterval)) return null
+
+  const { attendance, duration } = VENUE_CONFIG.events[station.venue]
+  const startTime = now + VENUE_CONFIG.announcementLead
+  return {
+    id,
+    stationId: station.id,
+    venue: station.venue,
+    announcedAt: now,
+    startTime,
+    endTime: startTime + duration,
+    attendance
+  }
+}
+
+// Passengers per game loop interval heading for a running event from each station, shared out like
+// the gravity model - by each station's mass and its distance from the venue
+export function getEventTripRates(
+  event: Pick<SpecialEvent, 'stationId' | 'startTime' | 'endTime' | 'attendance'>,
+  stations: Array<Pick<Station, 'id' | 'position' | 'buildingDensity' | 'venue'>>
+): number[] {
+  const venue = stations.find(s => s.id === event.stationId)
+  if (!venue) return stations.map(() => 0)
+
+  const weights = stations.map(station => station.id === venue.id
+    ? 0
+    : getStationMass(station, DEMAND_CONFIG) * getDistanceDecay(calculateDistance(station.position, venue.position), DEMAND_CONFIG)
+  )
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const perInterval = event.attendance * GAME_CONFIG.gameLoopInterval / Math.max(1, event.endTime - event.startTime)
+  return weights.map(weight => totalWeight > 0 ? perInterval * weight / totalWeight : 0)
+}
+
+export function getEventName(event: Pick<SpecialEvent, 'venue'>): string {
+  return VENUE_CONFIG.events[event.venue].name
+}
@@ -5,7 +5,6 @@ interface Station {
   id: string
   position: LngLat
   color: string
-  passengerCount: number
   overloadedSince?: number
   buildingDensity?: number
 }
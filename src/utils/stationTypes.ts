@@ -0,0 +1,61 @@
+import type { Station, StationType } from '../types'
+import { STATION_TYPE_CONFIG } from '../config/gameConfig'
+
+// Text symbols used to show station types in the 2D UI
+export const STATION_TYPE_SYMBOLS: Record<StationType, string> = {
+  circle: '●',
+  triangle: '▲',
+  square: '■',
+  pentagon: '⬟',
+  star: '★',
+  diamond: '◆'
+}
+
+export const STATION_TYPE_LABELS: Record<StationType, string> = {
+  circle: 'Circle',
+  triangle: 'Triangle',
+  square: 'Square',
+  pentagon: 'Pentagon',
+  star: 'Star',
+  diamond: 'Diamond'
+}
+
+/**
+ * Pick the type for a new station.
+ * The first stations always cover every basic type so passengers have somewhere to go,
+ * after that basic types are weighted and each special type appears at most once.
+ */
+export function pickStationType(
+  existingStations: Array<Pick<Station, 'type'>>,
+  random: () => number = Math.random
+): StationType {
+  const existingTypes = new Set(existingStations.map(s => s.type))
+
+  const missingBasicType = STATION_TYPE_CONFIG.basicTypes.find(type => !existingTypes.has(type))
+  if (missingBasicType) return missingBasicType
+
+  const availableSpecialTypes = STATION_TYPE_CONFIG.specialTypes.filter(type => !existingTypes.has(type))
+  if (availableSpecialTypes.length > 0 && random() < STATION_TYPE_CONFIG.specialTypeProbability) {
+    return availableSpecialTypes[Math.floor(random() * availableSpecialTypes.length)]
+  }
+
+  const weights = STATION_TYPE_CONFIG.basicTypeWeights
+  const totalWeight = STATION_TYPE_CONFIG.basicTypes.reduce((sum, type) => sum + (weights[type] || 0), 0)
+  let roll = random() * totalWeight
+  for (const type of STATION_TYPE_CONFIG.basicTypes) {
+    roll -= weights[type] || 0
+    if (roll < 0) return type
+  }
+  return STATION_TYPE_CONFIG.basicTypes[0]
+}
+
+// Pick a destination type for a new passenger: any type present in the city except the origin's own
+export function pickDestinationType(
+  origin: Pick<Station, 'type'>,
+  stations: Array<Pick<Station, 'type'>>,
+  random: () => number = Math.random
+): StationType | null {
+  const candidateTypes = Array.from(new Set(stations.map(s => s.type))).filter(type => type !== origin.type)
+  if (candidateTypes.length === 0) return null
+  return candidateTypes[Math.floor(random() * candidateTypes.length)]
+}
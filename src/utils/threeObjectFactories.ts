@@ -8,6 +8,8 @@ export { createStationObject } from './threeStationFactory'
 export { 
   createPassengerObject,
   createPassengerInstancedMesh,
+  getPassengerGeometry,
+  getPassengerMaterial,
   disposeSharedPassengerResources
 } from './threePassengerFactory'
 
@@ -1,65 +1,63 @@
 import * as THREE from 'three'
-import type { LngLat } from '../types'
+import type { LngLat, StationType } from '../types'
 import type { ThreeJsObject } from '../components/MlThreeJsLayer'
+import { createStationShapeGeometry } from './threeStationFactory'
 
-// Shared passenger geometries and materials for performance
-let sharedPassengerGeometry: THREE.CylinderGeometry | null = null
+// Shared passenger geometries (one per destination type) and materials for performance
+const sharedPassengerGeometries = new Map<StationType, THREE.BufferGeometry>()
 let sharedPassengerMaterial: THREE.MeshBasicMaterial | null = null
-let sharedTrainPassengerGeometry: THREE.CylinderGeometry | null = null
+const sharedTrainPassengerGeometries = new Map<StationType, THREE.BufferGeometry>()
 let sharedTrainPassengerMaterial: THREE.MeshBasicMaterial | null = null
 
 // Initialize shared resources once
 function initializeSharedResources() {
-  if (!sharedPassengerGeometry) {
-    sharedPassengerGeometry = new THREE.CylinderGeometry(
-      0.15, // radiusTop
-      0.15, // radiusBottom  
-      0.3,  // height
-      6,    // radialSegments (very low for performance)
-      1     // heightSegments
-    )
-  }
-  
   if (!sharedPassengerMaterial) {
-    sharedPassengerMaterial = new THREE.MeshBasicMaterial({ 
+    sharedPassengerMaterial = new THREE.MeshBasicMaterial({
       color: 0x555555, // Grey passengers
     })
   }
-  
-  if (!sharedTrainPassengerGeometry) {
-    sharedTrainPassengerGeometry = new THREE.CylinderGeometry(
-      0.1,  // radiusTop
-      0.1,  // radiusBottom
-      0.2,  // height  
-      6,    // radialSegments (very low for performance)
-      1     // heightSegments
-    )
-  }
-  
+
   if (!sharedTrainPassengerMaterial) {
-    sharedTrainPassengerMaterial = new THREE.MeshBasicMaterial({ 
+    sharedTrainPassengerMaterial = new THREE.MeshBasicMaterial({
       color: 0x333333, // Darker grey for train passengers
     })
   }
 }
 
+// Passengers are drawn as small versions of the station shape they want to reach
+export function getPassengerGeometry(destinationType: StationType, isOnTrain: boolean = false): THREE.BufferGeometry {
+  const geometries = isOnTrain ? sharedTrainPassengerGeometries : sharedPassengerGeometries
+  let geometry = geometries.get(destinationType)
+  if (!geometry) {
+    geometry = isOnTrain
+      ? createStationShapeGeometry(destinationType, 0.1, 0.2)
+      : createStationShapeGeometry(destinationType, 0.15, 0.3)
+    geometries.set(destinationType, geometry)
+  }
+  return geometry
+}
+
+export function getPassengerMaterial(isOnTrain: boolean = false): THREE.MeshBasicMaterial {
+  initializeSharedResources()
+  return isOnTrain ? sharedTrainPassengerMaterial! : sharedPassengerMaterial!
+}
+
 // Create a single passenger object
-export function createPassengerObject(passenger: { 
-  id: string; 
-  position: LngLat; 
-  isOnTrain?: boolean 
+export function createPassengerObject(passenger: {
+  id: string;
+  position: LngLat;
+  destinationType: StationType;
+  isOnTrain?: boolean
 }): ThreeJsObject {
-  initializeSharedResources()
-  
-  const geometry = passenger.isOnTrain ? sharedTrainPassengerGeometry! : sharedPassengerGeometry!
-  const material = passenger.isOnTrain ? sharedTrainPassengerMaterial! : sharedPassengerMaterial!
-  
+  const geometry = getPassengerGeometry(passenger.destinationType, passenger.isOnTrain)
+  const material = getPassengerMaterial(passenger.isOnTrain)
+
   const mesh = new THREE.Mesh(geometry, material)
-  mesh.userData = { 
+  mesh.userData = {
     type: passenger.isOnTrain ? 'train-passenger' : 'passenger',
-    passengerId: passenger.id 
+    passengerId: passenger.id
   }
-  
+
   return {
     id: passenger.id,
     position: passenger.position,
@@ -69,41 +67,36 @@ export function createPassengerObject(passenger: {
   }
 }
 
-// Create an instanced mesh for multiple passengers at a station
+// Create an instanced mesh for all waiting passengers heading to one station type
 export function createPassengerInstancedMesh(
   passengers: Array<{ id: string; position: LngLat; stationId: string }>,
+  destinationType: StationType,
   maxInstances: number = 1000
 ): THREE.InstancedMesh | null {
   if (passengers.length === 0) return null
-  
-  initializeSharedResources()
-  
+
   const instancedMesh = new THREE.InstancedMesh(
-    sharedPassengerGeometry!,
-    sharedPassengerMaterial!,
+    getPassengerGeometry(destinationType),
+    getPassengerMaterial(),
     Math.min(passengers.length, maxInstances)
   )
-  
-  instancedMesh.userData = { type: 'passengers' }
+
+  instancedMesh.userData = { type: 'passengers', destinationType }
   return instancedMesh
 }
 
 // Dispose shared resources (call on app cleanup)
 export function disposeSharedPassengerResources() {
-  if (sharedPassengerGeometry) {
-    sharedPassengerGeometry.dispose()
-    sharedPassengerGeometry = null
-  }
+  sharedPassengerGeometries.forEach(geometry => geometry.dispose())
+  sharedPassengerGeometries.clear()
   if (sharedPassengerMaterial) {
     sharedPassengerMaterial.dispose()
     sharedPassengerMaterial = null
   }
-  if (sharedTrainPassengerGeometry) {
-    sharedTrainPassengerGeometry.dispose()
-    sharedTrainPassengerGeometry = null
-  }
+  sharedTrainPassengerGeometries.forEach(geometry => geometry.dispose())
+  sharedTrainPassengerGeometries.clear()
   if (sharedTrainPassengerMaterial) {
     sharedTrainPassengerMaterial.dispose()
     sharedTrainPassengerMaterial = null
   }
-}
\ No newline at end of file
+}
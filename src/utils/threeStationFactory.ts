@@ -1,57 +1,136 @@
 import * as THREE from 'three'
-import type { LngLat } from '../types'
+import type { LngLat, StationType, VenueType } from '../types'
 import type { ThreeJsObject } from '../components/MlThreeJsLayer'
 
 // Shared station geometries and materials for performance
-let sharedBaseGeometry: THREE.CylinderGeometry | null = null
+const sharedBaseGeometries = new Map<StationType, THREE.BufferGeometry>()
 let sharedBaseMaterial: THREE.MeshLambertMaterial | null = null
-let sharedStationGeometry: THREE.CylinderGeometry | null = null
+const sharedStationGeometries = new Map<StationType, THREE.BufferGeometry>()
 let sharedStationMaterial: THREE.MeshLambertMaterial | null = null
+const sharedVenueGeometries = new Map<VenueType, THREE.BufferGeometry>()
+const sharedVenueMaterials = new Map<VenueType, THREE.MeshLambertMaterial>()
+
+// Build a flat prism for a station type. Shapes are built in the X-Y plane and
+// extruded along Z so they lie flat on the map without extra rotation.
+export function createStationShapeGeometry(type: StationType, radius: number, depth: number): THREE.BufferGeometry {
+  if (type === 'circle') {
+    const geometry = new THREE.CylinderGeometry(radius, radius, depth, 16) // Reduced segments
+    geometry.rotateX(Math.PI / 2) // Rotate to lay flat
+    return geometry
+  }
+
+  const shape = new THREE.Shape()
+  if (type === 'star') {
+    const points = 5
+    for (let i = 0; i < points * 2; i++) {
+      const pointRadius = i % 2 === 0 ? radius * 1.15 : radius * 0.5
+      const angle = Math.PI / 2 + (i * Math.PI) / points
+      const x = Math.cos(angle) * pointRadius
+      const y = Math.sin(angle) * pointRadius
+      if (i === 0) shape.moveTo(x, y)
+      else shape.lineTo(x, y)
+    }
+  } else {
+    // Regular polygons - corner count and rotation so each shape sits upright
+    const polygon: Record<Exclude<StationType, 'circle' | 'star'>, { sides: number; rotation: number; scale: number }> = {
+      triangle: { sides: 3, rotation: Math.PI / 2, scale: 1.2 },
+      square: { sides: 4, rotation: Math.PI / 4, scale: 1.15 },
+      diamond: { sides: 4, rotation: Math.PI / 2, scale: 1.2 },
+      pentagon: { sides: 5, rotation: Math.PI / 2, scale: 1.1 }
+    }
+    const { sides, rotation, scale } = polygon[type]
+    for (let i = 0; i < sides; i++) {
+      const angle = rotation + (i * 2 * Math.PI) / sides
+      const x = Math.cos(angle) * radius * scale
+      const y = Math.sin(angle) * radius * scale
+      if (i === 0) shape.moveTo(x, y)
+      else shape.lineTo(x, y)
+    }
+  }
+  shape.closePath()
+
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth, bevelEnabled: false })
+  geometry.translate(0, 0, -depth / 2) // Center on the station origin like the cylinder
+  return geometry
+}
 
 // Initialize shared resources once
-function initializeSharedResources() {
-  if (!sharedBaseGeometry) {
-    sharedBaseGeometry = new THREE.CylinderGeometry(1.3, 1.3, 0.05, 16) // Reduced segments
+function initializeSharedResources(type: StationType) {
+  if (!sharedBaseGeometries.has(type)) {
+    sharedBaseGeometries.set(type, createStationShapeGeometry(type, 1.3, 0.05))
   }
-  
+
   if (!sharedBaseMaterial) {
-    sharedBaseMaterial = new THREE.MeshLambertMaterial({ 
+    sharedBaseMaterial = new THREE.MeshLambertMaterial({
       color: 0x555555, // Darker opaque color instead of transparent
       side: THREE.DoubleSide // Render both front and back faces
     })
   }
-  
-  if (!sharedStationGeometry) {
-    sharedStationGeometry = new THREE.CylinderGeometry(1, 1, 0.5, 16) // Reduced segments
+
+  if (!sharedStationGeometries.has(type)) {
+    sharedStationGeometries.set(type, createStationShapeGeometry(type, 1, 0.5))
   }
-  
+
   if (!sharedStationMaterial) {
-    sharedStationMaterial = new THREE.MeshLambertMaterial({ 
+    sharedStationMaterial = new THREE.MeshLambertMaterial({
       color: 0xffffff,
       side: THREE.DoubleSide // Render both front and back faces
     })
   }
 }
 
-// Accepts full or partial station (id, position, color)
-export function createStationObject(station: { id: string; position: LngLat; color: string }): ThreeJsObject {
-  initializeSharedResources()
+// Venue stations carry an extra mark: a stadium bowl ringing the station, a concert hall's dome
+// beside it, or an airport runway underneath
+function createVenueGeometry(venue: VenueType): THREE.BufferGeometry {
+  if (venue === 'stadium') {
+    return new THREE.TorusGeometry(1.6, 0.22, 8, 32)
+  }
+  if (venue === 'concertHall') {
+    const geometry = new THREE.SphereGeometry(0.6, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2)
+    geometry.rotateX(Math.PI / 2) // Dome rises along Z, off the map
+    geometry.translate(1.3, 1.3, 0)
+    return geometry
+  }
+  const geometry = new THREE.BoxGeometry(4, 0.45, 0.05)
+  geometry.rotateZ(Math.PI / 4)
+  geometry.translate(0, 0, -0.3) // Under the grey base
+  return geometry
+}
+
+function getVenueMesh(venue: VenueType): THREE.Mesh {
+  if (!sharedVenueGeometries.has(venue)) {
+    sharedVenueGeometries.set(venue, createVenueGeometry(venue))
+  }
+  if (!sharedVenueMaterials.has(venue)) {
+    sharedVenueMaterials.set(venue, new THREE.MeshLambertMaterial({
+      color: venue === 'airport' ? 0x3a3a3a : 0xf5b700,
+      side: THREE.DoubleSide
+    }))
+  }
+  const mesh = new THREE.Mesh(sharedVenueGeometries.get(venue)!, sharedVenueMaterials.get(venue)!)
+  mesh.userData = { type: 'station-venue' }
+  return mesh
+}
+
+// Accepts full or partial station (id, position, color, type, venue)
+export function createStationObject(station: { id: string; position: LngLat; color: string; type?: StationType; venue?: VenueType }): ThreeJsObject {
+  const type = station.type || 'circle'
+  initializeSharedResources(type)
   // Create a group to hold both the base and the station
   const group = new THREE.Group()
-  
-  // Create the grey transparent base using shared resources
-  const baseMesh = new THREE.Mesh(sharedBaseGeometry!, sharedBaseMaterial!)
-  baseMesh.rotation.x = Math.PI / 2 // Rotate to lay flat
+
+  // Create the grey base using shared resources
+  const baseMesh = new THREE.Mesh(sharedBaseGeometries.get(type)!, sharedBaseMaterial!)
   baseMesh.position.z = -0.25 // Slightly below the main station
-  
-  // Create the white station disk on top using shared resources
-  const mesh = new THREE.Mesh(sharedStationGeometry!, sharedStationMaterial!)
-  mesh.rotation.x = Math.PI / 2 // Rotate to lay flat
-  
+
+  // Create the white station shape on top using shared resources
+  const mesh = new THREE.Mesh(sharedStationGeometries.get(type)!, sharedStationMaterial!)
+
   // Add both to the group
   group.add(baseMesh)
   group.add(mesh)
-  
+  if (station.venue) group.add(getVenueMesh(station.venue))
+
   return {
     id: station.id,
     position: station.position,
@@ -63,20 +142,20 @@ export function createStationObject(station: { id: string; position: LngLat; col
 
 // Dispose shared resources (call on app cleanup)
 export function disposeSharedStationResources() {
-  if (sharedBaseGeometry) {
-    sharedBaseGeometry.dispose()
-    sharedBaseGeometry = null
-  }
+  sharedBaseGeometries.forEach(geometry => geometry.dispose())
+  sharedBaseGeometries.clear()
   if (sharedBaseMaterial) {
     sharedBaseMaterial.dispose()
     sharedBaseMaterial = null
   }
-  if (sharedStationGeometry) {
-    sharedStationGeometry.dispose()
-    sharedStationGeometry = null
-  }
+  sharedStationGeometries.forEach(geometry => geometry.dispose())
+  sharedStationGeometries.clear()
   if (sharedStationMaterial) {
     sharedStationMaterial.dispose()
     sharedStationMaterial = null
   }
-}
\ No newline at end of file
+  sharedVenueGeometries.forEach(geometry => geometry.dispose())
+  sharedVenueGeometries.clear()
+  sharedVenueMaterials.forEach(material => material.dispose())
+  sharedVenueMaterials.clear()
+}
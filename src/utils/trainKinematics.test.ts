@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { TRAIN_CONFIG } from '../config/gameConfig'
+import { getDistanceToNextStop, getDwellTime, getLineTravelTime, getNextSpeed, getSegmentTravelTime, kmhToMs } from './trainKinematics'
+
+const MAX_SPEED = kmhToMs(TRAIN_CONFIG.defaultSpeedKmh)
+
+// Step a train from rest along a segment the way the simulation does, returning the time taken (ms)
+function runSegment(length: number, dt = 10): number {
+  let travelled = 0
+  let speed = 0
+  let time = 0
+  while (length - travelled > 0.01 && time < 60000) {
+    speed = getNextSpeed(speed, MAX_SPEED, length - travelled, dt)
+    travelled = Math.min(length, travelled + speed * dt / 1000)
+    time += dt
+  }
+  return time
+}
+
+describe('getNextSpeed', () => {
+  it('accelerates from rest up to top speed', () => {
+    expect(getNextSpeed(0, MAX_SPEED, 10000, 100)).toBeCloseTo(TRAIN_CONFIG.accelerationMs2 * 0.1)
+    expect(getNextSpeed(MAX_SPEED, MAX_SPEED, 10000, 100)).toBe(MAX_SPEED)
+  })
+
+  it('brakes so the train can stop at the next station', () => {
+    const speed = getNextSpeed(MAX_SPEED, MAX_SPEED, 10, 100)
+    expect(speed).toBeLessThan(MAX_SPEED)
+    expect(speed * speed / (2 * TRAIN_CONFIG.brakingMs2)).toBeLessThanOrEqual(10 + 1e-9)
+    expect(getNextSpeed(MAX_SPEED, MAX_SPEED, 0, 100)).toBe(0)
+  })
+})
+
+describe('getSegmentTravelTime', () => {
+  it('matches stepping a train along long and short segments', () => {
+    for (const length of [50, 400, 3000]) {
+      expect(runSegment(length)).toBeGreaterThan(getSegmentTravelTime(length, MAX_SPEED) * 0.95)
+      expect(runSegment(length)).toBeLessThan(getSegmentTravelTime(length, MAX_SPEED) * 1.1)
+    }
+  })
+
+  it('takes longer over longer segments', () => {
+    expect(getSegmentTravelTime(2000, MAX_SPEED)).toBeGreaterThan(getSegmentTravelTime(1000, MAX_SPEED))
+    expect(getSegmentTravelTime(0, MAX_SPEED)).toBe(0)
+  })
+
+  it('adds dwell at the stops in between for a whole line', () => {
+    const segments = [800, 1200]
+    expect(getLineTravelTime(segments, MAX_SPEED)).toBeCloseTo(
+      getSegmentTravelTime(800, MAX_SPEED) + getSegmentTravelTime(1200, MAX_SPEED) + TRAIN_CONFIG.stationDwellTime
+    )
+  })
+})
+
+describe('getDistanceToNextStop', () => {
+  const segmentLengths = [100, 200, 300]
+
+  it('measures to the next station in the direction of travel', () => {
+    expect(getDistanceToNextStop(0.5, 1, segmentLengths, () => true)).toBeCloseTo(50)
+    expect(getDistanceToNextStop(1.5, -1, segmentLengths, () => true)).toBeCloseTo(100)
+  })
+
+  it('runs on through stations the train skips', () => {
+    expect(getDistanceToNextStop(0.5, 1, segmentLengths, index => index !== 1)).toBeCloseTo(250)
+    // The line's ends are always stops
+    expect(getDistanceToNextStop(0.5, 1, segmentLengths, () => false)).toBeCloseTo(550)
+  })
+})
+
+describe('getDwellTime', () => {
+  it('grows with the passengers exchanged up to the limit', () => {
+    expect(getDwellTime(0)).toBe(TRAIN_CONFIG.stationDwellTime)
+    expect(getDwellTime(4)).toBe(TRAIN_CONFIG.stationDwellTime + 4 * TRAIN_CONFIG.dwellTimePerPassenger)
+    expect(getDwellTime(1000)).toBe(TRAIN_CONFIG.maxDwellTime)
+  })
+})
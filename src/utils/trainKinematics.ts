@@ -0,0 +1,70 @@
+import { TRAIN_CONFIG } from '../config/gameConfig'
+
+// Train kinematics.
+// Each run between two stops accelerates from rest, cruises at the train's top speed if the run is
+// long enough and brakes to a stop. Express trains run through the stations they skip at speed.
+// Distances are arc lengths along the drawn metro path (metres), so a train covers long and
+// short segments at the same real speed.
+
+export function kmhToMs(speedKmh: number): number {
+  return speedKmh / 3.6
+}
+
+// Speed for the next step: accelerate towards top speed, but never faster than the
+// train can still brake from before reaching the next stop
+export function getNextSpeed(speed: number, maxSpeed: number, distanceToStop: number, dt: number): number {
+  const accelerated = speed + TRAIN_CONFIG.accelerationMs2 * (dt / 1000)
+  const brakingLimit = Math.sqrt(2 * TRAIN_CONFIG.brakingMs2 * Math.max(0, distanceToStop))
+  return Math.max(0, Math.min(maxSpeed, accelerated, brakingLimit))
+}
+
+// Distance (m) from a position along a pattern to the next station the train calls at, running on
+// through the stations it skips. The pattern's ends are always calls.
+export function getDistanceToNextStop(
+  position: number,
+  direction: 1 | -1,
+  segmentLengths: number[],
+  callsAt: (stationIndex: number) => boolean
+): number {
+  const maxPosition = segmentLengths.length
+  let segmentIndex = Math.min(maxPosition - 1, Math.max(0, direction === 1 ? Math.floor(position) : Math.ceil(position) - 1))
+  let nextStation = direction === 1 ? segmentIndex + 1 : segmentIndex
+  let distance = Math.abs(nextStation - position) * (segmentLengths[segmentIndex] || 1)
+  while (nextStation > 0 && nextStation < maxPosition && !callsAt(nextStation)) {
+    segmentIndex = direction === 1 ? nextStation : nextStation - 1
+    nextStation += direction
+    distance += segmentLengths[segmentIndex] || 1
+  }
+  return distance
+}
+
+// Time (ms) spent at a station - longer the more passengers get on and off
+export function getDwellTime(exchangedPassengers: number): number {
+  return Math.min(
+    TRAIN_CONFIG.maxDwellTime,
+    TRAIN_CONFIG.stationDwellTime + exchangedPassengers * TRAIN_CONFIG.dwellTimePerPassenger
+  )
+}
+
+// Time (ms) to run a segment from stop to stop
+export function getSegmentTravelTime(length: number, maxSpeed: number): number {
+  if (length <= 0 || maxSpeed <= 0) return 0
+  const acceleration = TRAIN_CONFIG.accelerationMs2
+  const braking = TRAIN_CONFIG.brakingMs2
+  const speedUpDistance = maxSpeed * maxSpeed / (2 * acceleration)
+  const slowDownDistance = maxSpeed * maxSpeed / (2 * braking)
+
+  if (speedUpDistance + slowDownDistance >= length) {
+    // Too short to reach top speed - the train brakes as soon as it stops accelerating
+    const peakSpeed = Math.sqrt(2 * length * acceleration * braking / (acceleration + braking))
+    return (peakSpeed / acceleration + peakSpeed / braking) * 1000
+  }
+  const cruiseDistance = length - speedUpDistance - slowDownDistance
+  return (maxSpeed / acceleration + cruiseDistance / maxSpeed + maxSpeed / braking) * 1000
+}
+
+// Time (ms) for one run along a line from end to end, minimum dwell included at the stops in between
+export function getLineTravelTime(segmentLengths: number[], maxSpeed: number): number {
+  const running = segmentLengths.reduce((total, length) => total + getSegmentTravelTime(length, maxSpeed), 0)
+  return running + Math.max(0, segmentLengths.length - 1) * TRAIN_CONFIG.stationDwellTime
+}
@@ -0,0 +1,69 @@
+import type { Train } from '../types'
+
+// Train spacing along a line.
+// Trains on a line shuttle back and forth (or circle a loop), so their order is best compared
+// on the "cycle": one full round trip unrolled into a single coordinate. On a line with N
+// stations a round trip is 0 -> N-1 -> 0, a cycle of length 2 * (N - 1); on a loop the cycle
+// is just the loop itself. Spacing trains evenly on the cycle keeps their headways even.
+
+export function getCycleLength(stationCount: number, isCircular: boolean): number {
+  const maxPosition = Math.max(0, stationCount - 1)
+  return isCircular ? maxPosition : 2 * maxPosition
+}
+
+// Where a train is on its line's cycle
+export function getCyclePosition(train: Pick<Train, 'position' | 'direction'>, stationCount: number, isCircular: boolean): number {
+  const maxPosition = Math.max(0, stationCount - 1)
+  if (isCircular) {
+    // Each direction round a loop is its own cycle, measured in the direction of travel
+    return train.direction === 1 ? train.position : maxPosition - train.position
+  }
+  return train.direction === 1 ? train.position : 2 * maxPosition - train.position
+}
+
+// Position and direction for a point on the cycle - loopDirection picks which way round a loop
+export function getTrainStateAtCycle(
+  cyclePosition: number,
+  stationCount: number,
+  isCircular: boolean,
+  loopDirection: 1 | -1 = 1
+): Pick<Train, 'position' | 'direction'> {
+  const maxPosition = Math.max(0, stationCount - 1)
+  const cycleLength = getCycleLength(stationCount, isCircular)
+  const u = cycleLength > 0 ? ((cyclePosition % cycleLength) + cycleLength) % cycleLength : 0
+
+  if (isCircular) {
+    return loopDirection === 1 ? { position: u, direction: 1 } : { position: maxPosition - u, direction: -1 }
+  }
+  if (u <= maxPosition) {
+    return { position: u, direction: 1 }
+  }
+  return { position: 2 * maxPosition - u, direction: -1 }
+}
+
+// Cycle position in the middle of the largest gap between existing trains, for a new train
+export function findSpacedCyclePosition(existingCyclePositions: number[], cycleLength: number): number {
+  if (existingCyclePositions.length === 0 || cycleLength <= 0) return 0
+
+  const sorted = [...existingCyclePositions].sort((a, b) => a - b)
+  let bestStart = sorted[sorted.length - 1]
+  let bestGap = sorted[0] + cycleLength - bestStart // Gap wrapping round the end of the cycle
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const gap = sorted[i + 1] - sorted[i]
+    if (gap > bestGap) {
+      bestGap = gap
+      bestStart = sorted[i]
+    }
+  }
+  return (bestStart + bestGap / 2) % cycleLength
+}
+
+// Distance along the cycle to the next train ahead (Infinity when running alone)
+export function getGapAhead(cyclePosition: number, otherCyclePositions: number[], cycleLength: number): number {
+  let gap = Infinity
+  for (const other of otherCyclePositions) {
+    const ahead = ((other - cyclePosition) % cycleLength + cycleLength) % cycleLength
+    if (ahead > 0 && ahead < gap) gap = ahead
+  }
+  return gap
+}
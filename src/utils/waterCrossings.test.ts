@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addWaterTile, countRouteTunnels, createWaterSource, findWaterCrossings, getTileBounds, isPointOnWater, isWaterLoaded, type WaterFeature
+} from './waterCrossings'
+
+function rectangle(minLng: number, minLat: number, maxLng: number, maxLat: number): number[][] {
+  return [[minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat]]
+}
+
+// A river running north-south between lng 0.004 and 0.006, with an island in the middle
+const RIVER: WaterFeature = {
+  geometry: { type: 'Polygon', coordinates: [rectangle(0.004, -1, 0.006, 1), rectangle(0.0045, 0.01, 0.0055, 0.02)] }
+}
+
+describe('createWaterSource', () => {
+  it('keeps polygons and multipolygons and ignores other geometry', () => {
+    const source = createWaterSource([
+      RIVER,
+      { geometry: { type: 'MultiPolygon', coordinates: [[rectangle(1, 1, 2, 2)], [rectangle(3, 3, 4, 4)]] } },
+      { geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] } },
+      { geometry: null }
+    ])
+    expect(source.polygons).toHaveLength(3)
+  })
+})
+
+describe('isWaterLoaded', () => {
+  it('knows the water inside the area the source covers', () => {
+    const source = createWaterSource([RIVER], [{ minLng: 0, minLat: -0.01, maxLng: 0.01, maxLat: 0.01 }])
+    expect(isWaterLoaded([{ lng: 0, lat: 0 }, { lng: 0.01, lat: 0.005 }], source)).toBe(true)
+    expect(isWaterLoaded([{ lng: 0, lat: 0 }, { lng: 0.02, lat: 0 }], source)).toBe(false)
+  })
+
+  it('knows the water across areas loaded separately, but not past a gap between them', () => {
+    const west = { minLng: 0, minLat: -0.01, maxLng: 0.01, maxLat: 0.01 }
+    const east = { minLng: 0.01, minLat: -0.01, maxLng: 0.02, maxLat: 0 }
+    const source = createWaterSource([], [west, east])
+    expect(isWaterLoaded([{ lng: 0.005, lat: -0.005 }, { lng: 0.015, lat: -0.001 }], source)).toBe(true)
+    // The box between the points reaches north of the eastern area
+    expect(isWaterLoaded([{ lng: 0.005, lat: 0.005 }, { lng: 0.015, lat: -0.005 }], source)).toBe(false)
+  })
+
+  it('knows nothing before any water has loaded, and everywhere for local GeoJSON', () => {
+    expect(isWaterLoaded([{ lng: 0, lat: 0 }], createWaterSource([], []))).toBe(false)
+    expect(isWaterLoaded([{ lng: 0, lat: 0 }], createWaterSource([RIVER]))).toBe(true)
+  })
+})
+
+describe('addWaterTile', () => {
+  it('builds up water and coverage tile by tile', () => {
+    let source = createWaterSource([], [])
+    source = addWaterTile(source, [RIVER], getTileBounds(14, 8192, 8191))
+    source = addWaterTile(source, [], getTileBounds(14, 8192, 8192))
+    expect(source.polygons).toHaveLength(1)
+    expect(isWaterLoaded([{ lng: 0.001, lat: 0.001 }, { lng: 0.01, lat: -0.01 }], source)).toBe(true)
+    expect(isWaterLoaded([{ lng: -0.001, lat: 0 }], source)).toBe(false)
+  })
+})
+
+describe('getTileBounds', () => {
+  it('covers a quarter of the world at zoom 1', () => {
+    const bounds = getTileBounds(1, 1, 0)
+    expect(bounds.minLng).toBe(0)
+    expect(bounds.maxLng).toBe(180)
+    expect(bounds.minLat).toBeCloseTo(0)
+    expect(bounds.maxLat).toBeCloseTo(85.0511)
+  })
+})
+
+describe('isPointOnWater', () => {
+  const source = createWaterSource([RIVER])
+
+  it('finds points inside the water but not on its islands', () => {
+    expect(isPointOnWater({ lng: 0.005, lat: 0 }, source)).toBe(true)
+    expect(isPointOnWater({ lng: 0.005, lat: 0.015 }, source)).toBe(false)
+    expect(isPointOnWater({ lng: 0.01, lat: 0 }, source)).toBe(false)
+  })
+})
+
+describe('findWaterCrossings', () => {
+  it('finds where a path runs over water', () => {
+    const crossings = findWaterCrossings([{ lng: 0, lat: 0 }, { lng: 0.01, lat: 0 }], createWaterSource([RIVER]))
+    expect(crossings).toHaveLength(1)
+    expect(crossings[0].start.lng).toBeCloseTo(0.004)
+    expect(crossings[0].end.lng).toBeCloseTo(0.006)
+  })
+
+  it('crosses twice either side of an island', () => {
+    const crossings = findWaterCrossings([{ lng: 0, lat: 0.015 }, { lng: 0.01, lat: 0.015 }], createWaterSource([RIVER]))
+    expect(crossings).toHaveLength(2)
+  })
+
+  it('joins water split across tile boundaries into one crossing', () => {
+    const source = createWaterSource([
+      { geometry: { type: 'Polygon', coordinates: [rectangle(0.004, -1, 0.005, 1)] } },
+      { geometry: { type: 'Polygon', coordinates: [rectangle(0.005, -1, 0.006, 1)] } }
+    ])
+    expect(findWaterCrossings([{ lng: 0, lat: 0 }, { lng: 0.01, lat: 0 }], source)).toHaveLength(1)
+  })
+
+  it('finds nothing without water', () => {
+    expect(findWaterCrossings([{ lng: 0, lat: 0 }, { lng: 0.01, lat: 0 }], null)).toEqual([])
+  })
+})
+
+describe('countRouteTunnels', () => {
+  it('needs one tunnel for each segment crossing water', () => {
+    const source = createWaterSource([RIVER])
+    expect(countRouteTunnels([{ lng: 0, lat: 0 }, { lng: 0.01, lat: 0 }, { lng: 0.02, lat: 0 }], source)).toBe(1)
+    expect(countRouteTunnels([{ lng: 0.01, lat: 0 }, { lng: 0.02, lat: 0 }], source)).toBe(0)
+    expect(countRouteTunnels([{ lng: 0, lat: 0 }, { lng: 0.01, lat: 0 }, { lng: 0, lat: 0.001 }], source)).toBe(2)
+  })
+})
@@ -0,0 +1,221 @@
+import type { LngLat } from '../types'
+import { createMetroRouteCoordinates } from './routeNetworkCalculator'
+
+// Water crossings - where lines run over rivers, lakes and sea.
+// Water comes from a WaterSource: plain polygons built from GeoJSON features, normally the
+// water layer of the map's loaded vector tiles. Nothing here queries the map itself, so
+// crossings can be computed offline against any local GeoJSON.
+// Vector tiles only hold the water of the part of the map that has been loaded, so a source
+// built from them grows tile by tile, records the area loaded so far, and crossings outside it
+// aren't known yet.
+
+// A polygon is an outer ring followed by any holes (islands), as in GeoJSON
+export type WaterPolygon = LngLat[][]
+
+export interface Bounds {
+  minLng: number
+  minLat: number
+  maxLng: number
+  maxLat: number
+}
+
+export interface WaterSource {
+  polygons: Array<{ rings: WaterPolygon; bounds: Bounds }>
+  coverage?: Bounds[] // Areas all the water is known for - everywhere when missing, as for local GeoJSON
+}
+
+// Part of a line's path that runs over water
+export interface WaterCrossing {
+  start: LngLat
+  end: LngLat
+}
+
+// The subset of a GeoJSON feature used here - vector tile features and parsed GeoJSON both fit
+export interface WaterFeature {
+  geometry: { type: string; coordinates?: unknown } | null
+}
+
+function toRing(coordinates: number[][]): LngLat[] {
+  return coordinates.map(([lng, lat]) => ({ lng, lat }))
+}
+
+function getBounds(ring: LngLat[]): Bounds {
+  const bounds = { minLng: Infinity, minLat: Infinity, maxLng: -Infinity, maxLat: -Infinity }
+  for (const point of ring) {
+    bounds.minLng = Math.min(bounds.minLng, point.lng)
+    bounds.minLat = Math.min(bounds.minLat, point.lat)
+    bounds.maxLng = Math.max(bounds.maxLng, point.lng)
+    bounds.maxLat = Math.max(bounds.maxLat, point.lat)
+  }
+  return bounds
+}
+
+// Build a water source from Polygon and MultiPolygon features; other geometries are ignored
+export function createWaterSource(features: WaterFeature[], coverage?: Bounds[]): WaterSource {
+  const polygons: WaterSource['polygons'] = []
+  const addPolygon = (coordinates: number[][][]) => {
+    const rings = coordinates.filter(ring => ring.length >= 3).map(toRing)
+    if (rings.length > 0) polygons.push({ rings, bounds: getBounds(rings[0]) })
+  }
+
+  for (const feature of features) {
+    const geometry = feature.geometry
+    if (geometry?.type === 'Polygon') {
+      addPolygon(geometry.coordinates as number[][][])
+    } else if (geometry?.type === 'MultiPolygon') {
+      (geometry.coordinates as number[][][][]).forEach(addPolygon)
+    }
+  }
+  return { polygons, coverage }
+}
+
+// Add a loaded map tile's water, and the area it covers, to a source built up from tiles
+export function addWaterTile(source: WaterSource, features: WaterFeature[], tileBounds: Bounds): WaterSource {
+  return {
+    polygons: [...source.polygons, ...createWaterSource(features).polygons],
+    coverage: [...(source.coverage ?? []), tileBounds]
+  }
+}
+
+// Area covered by a web mercator map tile
+export function getTileBounds(z: number, x: number, y: number): Bounds {
+  const tiles = 2 ** z
+  const toLat = (row: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * row / tiles))) * 180 / Math.PI
+  return { minLng: x / tiles * 360 - 180, minLat: toLat(y + 1), maxLng: (x + 1) / tiles * 360 - 180, maxLat: toLat(y) }
+}
+
+// Ray casting point-in-ring test
+function isPointInRing(point: LngLat, ring: LngLat[]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i]
+    const b = ring[j]
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+        point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function isInBounds(point: LngLat, bounds: Bounds): boolean {
+  return point.lng >= bounds.minLng && point.lng <= bounds.maxLng &&
+         point.lat >= bounds.minLat && point.lat <= bounds.maxLat
+}
+
+// Whether some areas together cover all of a box. The box is cut along every area edge crossing
+// it, and each piece has to lie inside one of the areas.
+function isBoxCovered(box: Bounds, areas: Bounds[]): boolean {
+  const overlapping = areas.filter(area =>
+    area.minLng <= box.maxLng && area.maxLng >= box.minLng && area.minLat <= box.maxLat && area.maxLat >= box.minLat
+  )
+  // Middles of the pieces between the cuts, or the one value where the box has no width
+  const getSamples = (min: number, max: number, edges: number[]) => {
+    const cuts = [...new Set([min, max, ...edges.filter(edge => edge > min && edge < max)])].sort((a, b) => a - b)
+    return cuts.length === 1 ? cuts : cuts.slice(1).map((cut, i) => (cuts[i] + cut) / 2)
+  }
+  const lngs = getSamples(box.minLng, box.maxLng, overlapping.flatMap(area => [area.minLng, area.maxLng]))
+  const lats = getSamples(box.minLat, box.maxLat, overlapping.flatMap(area => [area.minLat, area.maxLat]))
+  return lngs.every(lng => lats.every(lat => overlapping.some(area => isInBounds({ lng, lat }, area))))
+}
+
+// Whether the source knows all the water around a path between these points - a station-to-station
+// path stays within its stations' bounding box, so that box has to be covered
+export function isWaterLoaded(points: LngLat[], source: WaterSource | null): boolean {
+  if (!source?.coverage) return true
+  return points.length > 0 && isBoxCovered(getBounds(points), source.coverage)
+}
+
+export function isPointOnWater(point: LngLat, source: WaterSource): boolean {
+  return source.polygons.some(({ rings, bounds }) =>
+    isInBounds(point, bounds) &&
+    isPointInRing(point, rings[0]) &&
+    !rings.slice(1).some(hole => isPointInRing(point, hole))
+  )
+}
+
+// Fractions along from -> to where it crosses the edges of any nearby water polygon
+function getEdgeIntersections(from: LngLat, to: LngLat, source: WaterSource): number[] {
+  const segmentBounds = getBounds([from, to])
+  const dx = to.lng - from.lng
+  const dy = to.lat - from.lat
+  const fractions: number[] = []
+
+  for (const { rings, bounds } of source.polygons) {
+    if (bounds.maxLng < segmentBounds.minLng || bounds.minLng > segmentBounds.maxLng ||
+        bounds.maxLat < segmentBounds.minLat || bounds.minLat > segmentBounds.maxLat) continue
+
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const ex = ring[i].lng - ring[j].lng
+        const ey = ring[i].lat - ring[j].lat
+        const denominator = dx * ey - dy * ex
+        if (denominator === 0) continue // Parallel edges don't cross
+
+        const ox = ring[j].lng - from.lng
+        const oy = ring[j].lat - from.lat
+        const t = (ox * ey - oy * ex) / denominator // Along the segment
+        const u = (ox * dy - oy * dx) / denominator // Along the edge
+        if (t > 0 && t < 1 && u >= 0 && u <= 1) fractions.push(t)
+      }
+    }
+  }
+  return fractions
+}
+
+function interpolate(from: LngLat, to: LngLat, t: number): LngLat {
+  return { lng: from.lng + (to.lng - from.lng) * t, lat: from.lat + (to.lat - from.lat) * t }
+}
+
+// Stretches of a path that run over water. The path is split wherever it crosses a polygon
+// edge and each piece tested at its midpoint; neighbouring wet pieces merge into one crossing,
+// which also joins up polygons cut apart at vector tile boundaries.
+export function findWaterCrossings(path: LngLat[], source: WaterSource | null): WaterCrossing[] {
+  if (!source || source.polygons.length === 0) return []
+
+  const crossings: WaterCrossing[] = []
+  let current: WaterCrossing | null = null
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const from = path[i]
+    const to = path[i + 1]
+    const cuts = [0, ...getEdgeIntersections(from, to, source).sort((a, b) => a - b), 1]
+
+    for (let k = 0; k < cuts.length - 1; k++) {
+      if (cuts[k + 1] - cuts[k] <= 0) continue
+      const isWet = isPointOnWater(interpolate(from, to, (cuts[k] + cuts[k + 1]) / 2), source)
+      if (isWet) {
+        const end = interpolate(from, to, cuts[k + 1])
+        if (current) {
+          current.end = end
+        } else {
+          current = { start: interpolate(from, to, cuts[k]), end }
+        }
+      } else if (current) {
+        crossings.push(current)
+        current = null
+      }
+    }
+  }
+  if (current) crossings.push(current)
+  return crossings
+}
+
+// Metro-style path drawn between two stations
+function getSegmentPath(from: LngLat, to: LngLat): LngLat[] {
+  return createMetroRouteCoordinates(from, to).map(([lng, lat]) => ({ lng, lat }))
+}
+
+// Water crossings along a line through the given station positions, segment by segment
+export function findRouteWaterCrossings(positions: LngLat[], source: WaterSource | null): WaterCrossing[][] {
+  const segments: WaterCrossing[][] = []
+  for (let i = 0; i < positions.length - 1; i++) {
+    segments.push(findWaterCrossings(getSegmentPath(positions[i], positions[i + 1]), source))
+  }
+  return segments
+}
+
+// Tunnels a line needs - one for every station-to-station segment that crosses water
+export function countRouteTunnels(positions: LngLat[], source: WaterSource | null): number {
+  return findRouteWaterCrossings(positions, source).filter(crossings => crossings.length > 0).length
+}